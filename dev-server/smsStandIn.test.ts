@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSmsStandInMiddleware } from './smsStandIn';
+
+describe('SMS stand-in', () => {
+  let server: Server;
+  let baseUrl: string;
+  let clock: number;
+  let logged: string[];
+
+  beforeEach(async () => {
+    clock = Date.UTC(2026, 0, 1);
+    logged = [];
+    const middleware = createSmsStandInMiddleware({
+      resendAfterSeconds: 60,
+      log: (line) => logged.push(line),
+      now: () => clock,
+    });
+    server = createServer((req, res) =>
+      middleware(req, res, () => {
+        res.writeHead(404);
+        res.end();
+      })
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(baseUrl + path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const lastCode = () => logged[logged.length - 1].match(/(\d{6})$/)?.[1];
+
+  it('should log the code, hold back a resend during the cooldown and verify the latest code', async () => {
+    const sent = await post('/api/auth/phone-verification/send', { verificationToken: 'reg-token-123' });
+    expect(sent.status).toBe(200);
+    expect(await sent.json()).toMatchObject({ resendAfter: 60 });
+    const firstCode = lastCode();
+    expect(firstCode).toMatch(/^\d{6}$/);
+    expect(logged[0]).not.toContain('reg-token-123');
+
+    const tooSoon = await post('/api/auth/phone-verification/send', { verificationToken: 'reg-token-123' });
+    expect(tooSoon.status).toBe(429);
+    expect(tooSoon.headers.get('retry-after')).toBe('60');
+
+    clock += 60_000;
+    const resent = await post('/api/auth/phone-verification/send', { verificationToken: 'reg-token-123' });
+    expect(resent.status).toBe(200);
+    const code = lastCode();
+
+    const wrong = await post('/api/auth/phone-verification/confirm', {
+      verificationToken: 'reg-token-123',
+      code: code === '000000' ? '111111' : '000000',
+    });
+    expect(wrong.status).toBe(400);
+    expect(await wrong.json()).toEqual({ message: 'The code is incorrect.' });
+
+    const confirmed = await post('/api/auth/phone-verification/confirm', { verificationToken: 'reg-token-123', code });
+    expect(confirmed.status).toBe(200);
+  });
+
+  it('should keep signed-in users apart by their credentials and refuse anonymous requests', async () => {
+    await post('/api/auth/phone-verification/send', {}, { Authorization: 'Bearer token-a' });
+    const code = lastCode();
+
+    const otherUser = await post('/api/auth/phone-verification/confirm', { code }, { Authorization: 'Bearer token-b' });
+    expect(otherUser.status).toBe(400);
+    expect((await post('/api/auth/phone-verification/send', {})).status).toBe(401);
+    expect((await post('/api/auth/phone-verification/confirm', { code }, { Authorization: 'Bearer token-a' })).status).toBe(200);
+  });
+
+  it('should refuse an expired code and leave other requests to the backend proxy', async () => {
+    await post('/api/auth/phone-verification/send', { verificationToken: 'reg-token-123' });
+    const code = lastCode();
+    clock += 11 * 60_000;
+
+    const expired = await post('/api/auth/phone-verification/confirm', { verificationToken: 'reg-token-123', code });
+    expect(expired.status).toBe(400);
+    expect(await expired.json()).toEqual({ message: 'This code has expired. Request a new one.' });
+    expect((await post('/api/auth/login', {})).status).toBe(404);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * SMS Stand-in
+ * Dev-server replacement for the backend's phone verification endpoints (see
+ * BACKEND-SMS-VERIFICATION.md): codes are written to the terminal instead of being
+ * texted, so the verify-phone flow runs without an SMS provider. Enabled with
+ * `npm run dev:sms`; every other /api request still goes to the proxied backend.
+ */
+
+import { randomInt } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { localConfig } from '../src/config/local';
+
+/** Vite mode that turns the stand-in on */
+export const SMS_STAND_IN_MODE = 'sms-stand-in';
+
+const SEND_PATH = '/api/auth/phone-verification/send';
+const CONFIRM_PATH = '/api/auth/phone-verification/confirm';
+
+export interface SmsStandInOptions {
+  codeLength?: number;
+  resendAfterSeconds?: number;
+  codeValidityMinutes?: number;
+  /** Where codes are "sent" */
+  log?: (line: string) => void;
+  now?: () => number;
+}
+
+interface PendingCode {
+  code: string;
+  sentAt: number;
+  expiresAt: number;
+}
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        const parsed: unknown = JSON.parse(raw || '{}');
+        resolve(parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {});
+      } catch {
+        resolve({});
+      }
+    });
+    req.on('error', () => resolve({}));
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Whose phone a request is about: the registration token, or else the signed-in user's credentials
+ * @returns Key and a log label that doesn't print the credential; null when there is neither
+ */
+function ownerOf(req: IncomingMessage, body: Record<string, unknown>): { key: string; label: string } | null {
+  if (typeof body.verificationToken === 'string' && body.verificationToken) {
+    return { key: `token:${body.verificationToken}`, label: `registration token ${body.verificationToken.slice(0, 6)}…` };
+  }
+  const credentials = req.headers.authorization || req.headers.cookie;
+  return credentials ? { key: `session:${credentials}`, label: 'signed-in user' } : null;
+}
+
+/**
+ * Connect middleware answering the phone verification endpoints; anything else goes to next()
+ */
+export function createSmsStandInMiddleware({
+  codeLength = localConfig.phoneVerification.codeLength,
+  resendAfterSeconds = localConfig.phoneVerification.resendCooldownSeconds,
+  codeValidityMinutes = 10,
+  log = console.log,
+  now = Date.now,
+}: SmsStandInOptions = {}): Middleware {
+  const pending = new Map<string, PendingCode>();
+
+  const handleSend = (res: ServerResponse, owner: { key: string; label: string }) => {
+    const previous = pending.get(owner.key);
+    const waitMs = previous ? previous.sentAt + resendAfterSeconds * 1000 - now() : 0;
+    if (waitMs > 0) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      sendJson(res, 429, { message: 'Please wait before requesting another code.' }, { 'Retry-After': String(retryAfter) });
+      return;
+    }
+    const code = String(randomInt(0, 10 ** codeLength)).padStart(codeLength, '0');
+    pending.set(owner.key, { code, sentAt: now(), expiresAt: now() + codeValidityMinutes * 60_000 });
+    log(`[sms-stand-in] SMS code for ${owner.label}: ${code}`);
+    sendJson(res, 200, { message: 'We texted you a verification code.', resendAfter: resendAfterSeconds });
+  };
+
+  const handleConfirm = (res: ServerResponse, owner: { key: string; label: string }, code: unknown) => {
+    const entry = pending.get(owner.key);
+    if (!entry) {
+      sendJson(res, 400, { message: 'Request a verification code first.' });
+    } else if (entry.expiresAt <= now()) {
+      pending.delete(owner.key);
+      sendJson(res, 400, { message: 'This code has expired. Request a new one.' });
+    } else if (String(code ?? '').trim() !== entry.code) {
+      sendJson(res, 400, { message: 'The code is incorrect.' });
+    } else {
+      pending.delete(owner.key);
+      log(`[sms-stand-in] Phone verified for ${owner.label}`);
+      sendJson(res, 200, { message: 'Phone number verified.' });
+    }
+  };
+
+  return (req, res, next) => {
+    const path = (req.url ?? '').split('?')[0];
+    if (req.method !== 'POST' || (path !== SEND_PATH && path !== CONFIRM_PATH)) {
+      next();
+      return;
+    }
+    void readJsonBody(req).then((body) => {
+      const owner = ownerOf(req, body);
+      if (!owner) {
+        sendJson(res, 401, { message: 'Sign in or use the link from your registration.' });
+      } else if (path === SEND_PATH) {
+        handleSend(res, owner);
+      } else {
+        handleConfirm(res, owner, body.code);
+      }
+    });
+  };
+}
+
+/**
+ * Vite plugin serving the stand-in in front of the /api proxy, only in the sms-stand-in mode
+ */
+export function smsStandIn(options: SmsStandInOptions = {}): Plugin {
+  return {
+    name: 'sms-stand-in',
+    apply: 'serve',
+    configureServer(server) {
+      if (server.config.mode !== SMS_STAND_IN_MODE) {
+        return;
+      }
+      const logger = server.config.logger;
+      server.middlewares.use(createSmsStandInMiddleware({ log: (line) => logger.info(line), ...options }));
+      logger.info('[sms-stand-in] Phone verification codes are logged here instead of being texted');
+    },
+  };
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from 'react'
-import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom'
+import { useEffect, useRef } from 'react'
+import { Routes, Route, useLocation, useNavigate } from 'react-router-dom'
 import './App.css'
 import Navbar from './components/navbar/Navbar'
 import Main from './components/main/Main'
@@ -10,6 +10,19 @@ import OAuth2Callback from './components/oauth2/OAuth2Callback'
 import VerifyEmail from './components/verify-email/VerifyEmail'
 import ForgotPassword from './components/forgot-password/ForgotPassword'
 import ResetPassword from './components/reset-password/ResetPassword'
+import MagicLink from './components/magic-link/MagicLink'
+import UnlockAccount from './components/unlock-account/UnlockAccount'
+import ResendVerification from './components/resend-verification/ResendVerification'
+import VerifyPhone from './components/verify-phone/VerifyPhone'
+import ProtectedRoute from './components/protected-route/ProtectedRoute'
+import RequirePermission from './components/protected-route/RequirePermission'
+import IdleTimeoutDialog from './components/idle-timeout/IdleTimeoutDialog'
+import ConsentGate from './components/consent/ConsentGate'
+import { useSession } from './session/useSession'
+import { isIdleTimeoutEnabled } from './session/useIdleTimer'
+
+// Pages opened from email links or provider redirects; 404.html passes them as ?redirect_path=
+const LINK_ROUTES = ['/verify-email', '/reset-password', '/magic-link', '/unlock-account', '/oauth2/callback', '/register'];
 
 // Component to handle GitHub Pages 404 redirects from index.html
 // Also handles direct access to routes without base path (for email verification links)
@@ -29,9 +42,22 @@ function RedirectHandler() {
     const hasCode = search.includes('code=');
     const hasEmail = search.includes('email=');
     const hasRole = search.includes('role=');
+    const hasInvite = search.includes('invite=');
     const isIndexPage = pathname === '/index.html';
     const basePath = import.meta.env.BASE_URL || '/user-management-UI';
     
+    // 404.html knows which page GitHub Pages could not serve; route there directly
+    const redirectPath = new URLSearchParams(search).get('redirect_path');
+    if (isIndexPage && redirectPath && LINK_ROUTES.includes(redirectPath)) {
+      console.log('RedirectHandler: Detected redirect_path, redirecting to', redirectPath);
+      const params = new URLSearchParams(search);
+      params.delete('redirect_path');
+      const remaining = params.toString();
+      hasRedirectedRef.current = true;
+      navigate(redirectPath + (remaining ? `?${remaining}` : '') + location.hash, { replace: true });
+      return;
+    }
+
     // Handle direct access to /verify-email without base path (from email links)
     if (pathname === '/verify-email' && hasToken && !pathname.startsWith(basePath)) {
       console.log('RedirectHandler: Detected direct access to /verify-email, redirecting with base path');
@@ -56,6 +82,14 @@ function RedirectHandler() {
       return;
     }
     
+    // Invite links carry no token= param; without redirect_path they can only be meant for /register
+    if (isIndexPage && hasInvite) {
+      console.log('RedirectHandler: Detected registration invite, redirecting to /register');
+      hasRedirectedRef.current = true;
+      navigate('/register' + search + location.hash, { replace: true });
+      return;
+    }
+
     if (isIndexPage && hasToken) {
       // Check if this is an OAuth2 callback (has email and/or role params) or email verification
       if (hasEmail || hasRole || hasCode) {
@@ -93,48 +127,58 @@ function RedirectHandler() {
 }
 
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
-
-  const handleLogin = () => {
-    setIsAuthenticated(true)
-  }
+  const { isAuthenticated, user, logout } = useSession()
 
   const handleLogout = () => {
-    setIsAuthenticated(false)
-    // Clear token and email from localStorage
-    localStorage.removeItem('token')
-    localStorage.removeItem('userEmail')
+    // Clears the local session right away; token revocation on the backend continues in the background
+    void logout()
     console.log('User logged out')
   }
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navbar isAuthenticated={isAuthenticated} onLogout={handleLogout} />
-      <Routes>
-        <Route path="/" element={<Main isAuthenticated={isAuthenticated} />} />
-        <Route path="/register" element={<Register />} />
-        <Route path="/login" element={<Login onLoginSuccess={handleLogin} />} />
-        <Route path="/forgot-password" element={<ForgotPassword />} />
-        <Route path="/reset-password" element={<ResetPassword />} />
-        <Route path="/verify-email" element={<VerifyEmail />} />
-        <Route 
-          path="/oauth2/callback" 
-          element={<OAuth2Callback onLoginSuccess={handleLogin} />} 
-        />
-        <Route 
-          path="/user-account" 
-          element={
-            isAuthenticated ? (
-              <UserAccount isAuthenticated={isAuthenticated} />
-            ) : (
-              <Navigate to="/login" replace />
-            )
-          } 
-        />
-        <Route path="/about" element={<div className="p-8"><h1 className="text-3xl font-bold">About</h1><p className="mt-4">About page coming soon...</p></div>} />
-        {/* Catch-all route for index.html redirects - handles OAuth2 and email verification */}
-        <Route path="/index.html" element={<RedirectHandler />} />
-      </Routes>
+      <Navbar onLogout={handleLogout} />
+      {isAuthenticated && isIdleTimeoutEnabled() && (
+        <IdleTimeoutDialog onLogout={handleLogout} />
+      )}
+      {/* Checked once per signed-in user: first login without consent, or newer document versions */}
+      <ConsentGate email={isAuthenticated ? user?.email ?? null : null} onDecline={handleLogout}>
+        <Routes>
+          <Route path="/" element={<Main />} />
+          <Route path="/register" element={<Register />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
+          <Route path="/resend-verification" element={<ResendVerification />} />
+          <Route path="/verify-phone" element={<VerifyPhone />} />
+          <Route path="/magic-link" element={<MagicLink />} />
+          <Route path="/unlock-account" element={<UnlockAccount />} />
+          <Route 
+            path="/oauth2/callback" 
+            element={<OAuth2Callback />} 
+          />
+          <Route 
+            path="/user-account" 
+            element={
+              <ProtectedRoute>
+                <UserAccount />
+              </ProtectedRoute>
+            } 
+          />
+          <Route path="/about" element={<div className="p-8"><h1 className="text-3xl font-bold">About</h1><p className="mt-4">About page coming soon...</p></div>} />
+          <Route
+            path="/admin"
+            element={
+              <RequirePermission permissions="admin:access">
+                <div className="p-8"><h1 className="text-3xl font-bold">Admin</h1><p className="mt-4">Admin tools coming soon...</p></div>
+              </RequirePermission>
+            }
+          />
+          {/* Catch-all route for index.html redirects - handles OAuth2 and email verification */}
+          <Route path="/index.html" element={<RedirectHandler />} />
+        </Routes>
+      </ConsentGate>
     </div>
   )
 }
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import config from '../../config';
+import { getCaptchaProvider } from '../../utils/captcha';
+
+interface CaptchaChallengeProps {
+  /** Solved challenge token, or null once it expires */
+  onToken: (token: string | null) => void;
+}
+
+/** Mounts the configured provider's widget; re-key it to get a fresh challenge */
+const CaptchaChallenge = ({ onToken }: CaptchaChallengeProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onTokenRef = useRef(onToken);
+
+  useEffect(() => {
+    onTokenRef.current = onToken;
+  }, [onToken]);
+
+  useEffect(() => {
+    const provider = getCaptchaProvider();
+    const container = containerRef.current;
+    if (!provider || !container) {
+      return;
+    }
+    return provider.mount(container, {
+      siteKey: config.captcha.siteKey,
+      onToken: (token) => onTokenRef.current(token),
+      onExpire: () => onTokenRef.current(null),
+    });
+  }, []);
+
+  return (
+    <div className="w-full">
+      <p className="text-[11px] text-gray-500 mb-1 leading-snug">Please confirm you&apos;re not a robot.</p>
+      <div ref={containerRef} />
+    </div>
+  );
+};
+
+export default CaptchaChallenge;
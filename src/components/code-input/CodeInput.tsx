@@ -0,0 +1,32 @@
+interface CodeInputProps {
+  id: string;
+  value: string;
+  /** Called with digits only */
+  onChange: (value: string) => void;
+  /** Number of digits in the code */
+  length: number;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+const CodeInput = ({ id, value, onChange, length, disabled, autoFocus, className = '' }: CodeInputProps) => (
+  <input
+    type="text"
+    id={id}
+    name={id}
+    value={value}
+    // Pasted codes often come with spaces or dashes
+    onChange={(e) => onChange(e.target.value.replace(/\D/g, '').slice(0, length))}
+    required
+    disabled={disabled}
+    autoFocus={autoFocus}
+    autoComplete="one-time-code"
+    inputMode="numeric"
+    pattern={`\\d{${length}}`}
+    className={`${className} tracking-widest`}
+    placeholder={'0'.repeat(length)}
+  />
+);
+
+export default CodeInput;
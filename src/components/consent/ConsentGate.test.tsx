@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ConsentGate from './ConsentGate';
+import { jsonResponse } from '../../test/responses';
+
+describe('ConsentGate Component', () => {
+  const onDecline = vi.fn();
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+    onDecline.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderGate = (email: string | null = 'jane@example.com') =>
+    render(
+      <ConsentGate email={email} onDecline={onDecline}>
+        <p>App content</p>
+      </ConsentGate>
+    );
+
+  const updatedTerms = jsonResponse(200, {
+    documents: [{ type: 'terms', version: '2026-09', url: 'https://example.com/terms', acceptedVersion: '2025-01' }],
+  });
+
+  it('should not render the app while the new terms are pending', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(updatedTerms);
+    renderGate();
+
+    expect(screen.queryByText('App content')).not.toBeInTheDocument();
+    expect(await screen.findByRole('heading', { name: 'We’ve updated our terms' })).toBeInTheDocument();
+    expect(screen.queryByText('App content')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Accept and continue' })).toBeDisabled();
+  });
+
+  it('should record the accepted versions and then show the app', async () => {
+    const user = userEvent.setup();
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(updatedTerms);
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 204, headers: new Headers(), text: async () => '' });
+    renderGate();
+
+    await user.click(await screen.findByRole('checkbox'));
+    await user.click(screen.getByRole('button', { name: 'Accept and continue' }));
+
+    expect(await screen.findByText('App content')).toBeInTheDocument();
+    expect(fetchMock.mock.calls[1][0]).toContain('/api/users/me/consent');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ accepted: [{ type: 'terms', version: '2026-09' }] });
+  });
+
+  it('should sign out when the user declines', async () => {
+    const user = userEvent.setup();
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(updatedTerms);
+    renderGate();
+
+    await user.click(await screen.findByRole('button', { name: 'Decline and sign out' }));
+
+    expect(onDecline).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show the app right away when nobody is signed in, and once everything is accepted', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    const { unmount } = renderGate(null);
+
+    expect(screen.getByText('App content')).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+    unmount();
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, [{ type: 'terms', version: '2026-09', acceptedVersion: '2026-09' }]));
+    renderGate();
+
+    expect(await screen.findByText('App content')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { errorMessage, isAbortError } from '../../utils/apiClient';
+import { acceptLegalDocuments, fetchConsentStatus, pendingDocuments, type LegalDocument } from '../../utils/consent';
+import LegalDocumentLinks from './LegalDocumentLinks';
+
+interface ConsentGateProps {
+  /** Signed-in user; null renders the children right away */
+  email: string | null;
+  onDecline: () => void;
+  /** The app; not rendered (so it makes no requests) until acceptance is settled */
+  children: ReactNode;
+}
+
+/** Documents still to accept, for the user they were loaded for */
+interface ConsentCheck {
+  email: string;
+  pending: LegalDocument[];
+}
+
+interface ConsentPromptProps {
+  pending: LegalDocument[];
+  onAccepted: () => void;
+  onDecline: () => void;
+}
+
+const ConsentPrompt = ({ pending, onAccepted, onDecline }: ConsentPromptProps) => {
+  const [agreed, setAgreed] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await acceptLegalDocuments(pending);
+      onAccepted();
+    } catch (err) {
+      console.error('Consent error:', err);
+      setError(errorMessage(err, 'Could not save your acceptance. Please try again.'));
+      setSaving(false);
+    }
+  };
+
+  const updated = pending.some((doc) => doc.acceptedVersion !== null);
+
+  return (
+    <div className="flex justify-center px-4 py-8">
+      <section
+        aria-labelledby="consent-title"
+        aria-describedby="consent-description"
+        className="max-w-md w-full bg-white rounded-lg shadow-lg p-6"
+      >
+        <h2 id="consent-title" className="text-lg font-semibold text-gray-900">
+          {updated ? 'We’ve updated our terms' : 'Review our terms'}
+        </h2>
+        <p id="consent-description" className="mt-2 text-sm text-gray-600">
+          {updated
+            ? 'Please review the changes and accept them to keep using your account.'
+            : 'Please review and accept them before you continue.'}
+        </p>
+
+        <ul className="mt-3 space-y-1">
+          {pending.map((doc) => (
+            <li key={doc.type} className="text-sm text-gray-800">
+              {doc.url ? (
+                <a
+                  href={doc.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-indigo-600 underline hover:text-indigo-500"
+                >
+                  {doc.title}
+                </a>
+              ) : (
+                <span className="font-medium">{doc.title}</span>
+              )}{' '}
+              <span className="text-xs text-gray-500">(version {doc.version})</span>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-sm text-red-800 font-medium wrap-break-word">Error: {error}</p>
+          </div>
+        )}
+
+        <label className="mt-4 flex items-start gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={agreed}
+            onChange={(e) => setAgreed(e.target.checked)}
+            className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>
+            I have read and accept <LegalDocumentLinks documents={pending} />.
+          </span>
+        </label>
+
+        <div className="mt-6 flex flex-col gap-2 sm:flex-row-reverse">
+          <button
+            type="button"
+            onClick={handleAccept}
+            disabled={!agreed || saving}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Accept and continue'}
+          </button>
+          <button
+            type="button"
+            onClick={onDecline}
+            disabled={saving}
+            className="w-full bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+          >
+            Decline and sign out
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+/**
+ * Blocks the app until the signed-in user accepts the current legal documents: on the
+ * first login of accounts created without consent (e.g. OAuth2) and after a document
+ * changes version. The children are replaced by the prompt, not covered by it.
+ */
+const ConsentGate = ({ email, onDecline, children }: ConsentGateProps) => {
+  const [check, setCheck] = useState<ConsentCheck | null>(null);
+
+  useEffect(() => {
+    if (!email) {
+      return;
+    }
+    const controller = new AbortController();
+    fetchConsentStatus(controller.signal)
+      .then((documents) => setCheck({ email, pending: pendingDocuments(documents) }))
+      .catch((err: unknown) => {
+        if (isAbortError(err)) {
+          return;
+        }
+        // Without a status there is nothing to ask for; the backend still enforces consent
+        console.warn('Could not load consent status:', err);
+        setCheck({ email, pending: [] });
+      });
+    return () => controller.abort();
+  }, [email]);
+
+  if (!email) {
+    return <>{children}</>;
+  }
+  if (check?.email !== email) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        <span className="sr-only">Checking your account...</span>
+      </div>
+    );
+  }
+  if (check.pending.length === 0) {
+    return <>{children}</>;
+  }
+  return (
+    <ConsentPrompt
+      key={email}
+      pending={check.pending}
+      onAccepted={() => setCheck({ email, pending: [] })}
+      onDecline={onDecline}
+    />
+  );
+};
+
+export default ConsentGate;
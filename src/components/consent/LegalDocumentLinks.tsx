@@ -0,0 +1,35 @@
+import { Fragment } from 'react';
+import type { LegalDocument } from '../../utils/consent';
+
+interface LegalDocumentLinksProps {
+  documents: LegalDocument[];
+  className?: string;
+}
+
+/**
+ * "Terms of Service and Privacy Policy", each linking to its document (opens in a new tab)
+ */
+const LegalDocumentLinks = ({ documents, className = '' }: LegalDocumentLinksProps) => {
+  if (documents.length === 0) {
+    return <>the Terms of Service and Privacy Policy</>;
+  }
+  return (
+    <>
+      the{' '}
+      {documents.map((doc, index) => (
+        <Fragment key={doc.type}>
+          {index > 0 && (index === documents.length - 1 ? ' and ' : ', ')}
+          {doc.url ? (
+            <a href={doc.url} target="_blank" rel="noopener noreferrer" className={className}>
+              {doc.title}
+            </a>
+          ) : (
+            doc.title
+          )}
+        </Fragment>
+      ))}
+    </>
+  );
+};
+
+export default LegalDocumentLinks;
@@ -1,56 +1,75 @@
 import { useState } from 'react';
 import type { FormEvent } from 'react';
-import { Link } from 'react-router-dom';
-import { getApiUrl } from '../../utils/api';
-import { messageFromApiErrorBody } from '../../utils/apiErrors';
+import { Link, useLocation } from 'react-router-dom';
+import { apiRequest } from '../../utils/apiClient';
 import { normalizeEmail } from '../../utils/email';
 import { frontendContextHeaders } from '../../utils/frontendRequestHints';
+import { useThrottle } from '../../utils/useThrottle';
+import ThrottleNotice from '../rate-limit/ThrottleNotice';
+import CaptchaChallenge from '../captcha/CaptchaChallenge';
+import { useCaptcha } from '../../utils/useCaptcha';
+import { useForm } from '../../utils/useForm';
+import { required, validEmail, type FormSchema } from '../../utils/formValidation';
+import FieldError from '../form/FieldError';
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+const forgotPasswordSchema: FormSchema<ForgotPasswordFormData> = {
+  email: { normalize: normalizeEmail, rules: [required('Please enter your email'), validEmail()] },
+};
 
 const ForgotPassword = () => {
-  const [email, setEmail] = useState('');
+  const location = useLocation();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const form = useForm<ForgotPasswordFormData>({
+    // Prefilled when Register found the address already registered
+    initialValues: { email: (location.state as { email?: string } | null)?.email ?? '' },
+    schema: forgotPasswordSchema,
+    onEdit: () => setError(null),
+  });
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const { throttle, secondsLeft, isThrottled, handleThrottle } = useThrottle();
+  const captcha = useCaptcha('forgot-password');
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (!form.validate()) {
+      return;
+    }
+    if (captcha.required && !captcha.token) {
+      setError('Please complete the challenge first.');
+      return;
+    }
     setLoading(true);
     setError(null);
     setSuccessMessage(null);
 
     try {
-      const normalized = normalizeEmail(email);
-      const response = await fetch(getApiUrl('/api/auth/forgot-password'), {
+      const normalized = normalizeEmail(form.values.email);
+      const data = await apiRequest<Record<string, unknown> | null>('/api/auth/forgot-password', {
         method: 'POST',
+        auth: false,
         headers: frontendContextHeaders(),
-        body: JSON.stringify({ email: normalized }),
+        body: { email: normalized, ...captcha.fields },
+        allowEmpty: true,
       });
-
-      const contentType = response.headers.get('content-type');
-      let data: Record<string, unknown> = {};
-
-      if (contentType?.includes('application/json')) {
-        data = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-      }
-
-      if (!response.ok) {
-        const detail = messageFromApiErrorBody(data);
-        const message =
-          detail ||
-          (typeof data.message === 'string' ? data.message : null) ||
-          `Request failed (${response.status})`;
-        console.error('Forgot password failed:', response.status, data);
-        throw new Error(message);
-      }
+      captcha.recordSuccess();
 
       const msg =
-        typeof data.message === 'string'
+        typeof data?.message === 'string'
           ? data.message
           : 'If an account exists for this email, we sent password reset instructions.';
       setSuccessMessage(msg);
-      setEmail('');
+      form.reset();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong');
+      if (captcha.recordFailure(err)) {
+        setError('Please complete the challenge and try again.');
+      } else if (!handleThrottle(err)) {
+        setError(form.applyServerErrors(err, 'Something went wrong'));
+      }
       console.error('Forgot password error:', err);
     } finally {
       setLoading(false);
@@ -92,31 +111,28 @@ const ForgotPassword = () => {
             </div>
           )}
 
+          {throttle && <ThrottleNotice throttle={throttle} secondsLeft={secondsLeft} />}
+
           {!successMessage && (
-            <form onSubmit={handleSubmit} className="space-y-2">
+            <form onSubmit={handleSubmit} noValidate className="space-y-2">
               <div>
                 <label htmlFor="forgot-email" className="block text-xs font-medium text-gray-700 mb-0.5">
                   Email
                 </label>
                 <input
                   type="email"
-                  id="forgot-email"
-                  name="email"
-                  value={email}
-                  onChange={(e) => {
-                    setEmail(e.target.value);
-                    if (error) setError(null);
-                  }}
-                  onBlur={() => setEmail((v) => normalizeEmail(v))}
+                  {...form.field('email', 'forgot-email')}
                   required
                   autoComplete="email"
                   className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
                   placeholder="you@example.com"
                 />
+                <FieldError inputId="forgot-email" message={form.errors.email} />
               </div>
+              {captcha.required && <CaptchaChallenge key={captcha.widgetKey} onToken={captcha.setToken} />}
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || isThrottled}
                 className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 {loading ? 'Sending…' : 'Send reset link'}
@@ -0,0 +1,18 @@
+interface FieldErrorProps {
+  /** Input id; the message gets `${inputId}-error`, which useForm's field() points aria-describedby at */
+  inputId: string;
+  message?: string;
+}
+
+const FieldError = ({ inputId, message }: FieldErrorProps) => {
+  if (!message) {
+    return null;
+  }
+  return (
+    <p id={`${inputId}-error`} className="mt-0.5 text-[11px] text-red-600 leading-snug">
+      {message}
+    </p>
+  );
+};
+
+export default FieldError;
@@ -0,0 +1,71 @@
+import config from '../../config';
+import { useIdleTimer } from '../../session/useIdleTimer';
+
+interface IdleTimeoutDialogProps {
+  onLogout: () => void;
+}
+
+/**
+ * Countdown shown before an idle session is signed out; render only while signed in
+ */
+const IdleTimeoutDialog = ({ onLogout }: IdleTimeoutDialogProps) => {
+  const { isWarning, secondsRemaining, stayActive } = useIdleTimer({
+    timeoutMs: config.idleTimeout.timeoutMinutes * 60 * 1000,
+    warningMs: config.idleTimeout.warningSeconds * 1000,
+    onIdle: onLogout,
+  });
+
+  if (!isWarning) {
+    return null;
+  }
+
+  const minutes = Math.floor(secondsRemaining / 60);
+  const seconds = String(secondsRemaining % 60).padStart(2, '0');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        aria-describedby="idle-timeout-description"
+        className="max-w-sm w-full bg-white rounded-lg shadow-xl p-6 text-center"
+      >
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-amber-100">
+          <svg className="h-6 w-6 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </div>
+        <h2 id="idle-timeout-title" className="mt-4 text-lg font-semibold text-gray-900">
+          Are you still there?
+        </h2>
+        <p id="idle-timeout-description" className="mt-2 text-sm text-gray-600">
+          You&apos;ll be signed out in{' '}
+          <span className="font-semibold text-gray-900" aria-live="polite">
+            {minutes}:{seconds}
+          </span>{' '}
+          because of inactivity.
+        </p>
+        <div className="mt-6 flex flex-col gap-2 sm:flex-row-reverse">
+          <button
+            type="button"
+            onClick={stayActive}
+            autoFocus
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium"
+          >
+            Stay signed in
+          </button>
+          <button
+            type="button"
+            onClick={onLogout}
+            className="w-full bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+          >
+            Sign out now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdleTimeoutDialog;
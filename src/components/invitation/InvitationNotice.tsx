@@ -0,0 +1,72 @@
+import { Link } from 'react-router-dom';
+import type { InvitationProblem } from '../../utils/invitation';
+
+interface InvitationNoticeProps {
+  status: 'loading' | InvitationProblem;
+  message: string | null;
+}
+
+const PROBLEMS: Record<InvitationProblem, { title: string; hint: string }> = {
+  expired: {
+    title: 'Invitation Expired',
+    hint: 'Invitations are only valid for a limited time. Ask the person who invited you to send a new one.',
+  },
+  used: {
+    title: 'Invitation Already Used',
+    hint: 'An account was already created with this invitation. Log in instead, or reset your password if you forgot it.',
+  },
+  invalid: {
+    title: 'Invitation Not Valid',
+    hint: 'Check that you opened the complete link from your invitation email.',
+  },
+  error: {
+    title: 'Could Not Check Your Invitation',
+    hint: 'Please reload this page in a moment.',
+  },
+};
+
+/**
+ * Shown instead of the registration form while an invite is checked, or when it cannot be used
+ */
+const InvitationNotice = ({ status, message }: InvitationNoticeProps) => (
+  <div className="min-h-[calc(100dvh-2.5rem)] bg-gray-50 flex items-center justify-center px-4">
+    <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8">
+      {status === 'loading' ? (
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+          <h2 className="mt-4 text-xl font-semibold text-gray-900">Checking your invitation...</h2>
+        </div>
+      ) : (
+        <div className="text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
+            <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-gray-900">{PROBLEMS[status].title}</h2>
+          {message && (
+            <div className="mt-4 text-left bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-700 text-sm">{message}</p>
+            </div>
+          )}
+          <p className="mt-4 text-sm text-gray-600">{PROBLEMS[status].hint}</p>
+          <div className="mt-6 flex flex-col gap-2">
+            <Link
+              to="/login"
+              className="w-full bg-indigo-600 text-white py-2.5 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium"
+            >
+              Go to Login
+            </Link>
+            {status === 'used' && (
+              <Link to="/forgot-password" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                Reset your password
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default InvitationNotice;
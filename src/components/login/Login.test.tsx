@@ -1,8 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, MemoryRouter } from 'react-router-dom';
 import Login from './Login';
+import SessionProvider from '../../session/SessionProvider';
+import { endSession } from '../../session/sessionStore';
+import { jsonResponse } from '../../test/responses';
+import config from '../../config';
 
 // Mock useNavigate
 const mockNavigate = vi.fn();
@@ -39,6 +43,10 @@ describe('Login Component', () => {
     vi.stubGlobal('localStorage', localStorageMock);
     // Reset fetch mock
     globalThis.fetch = vi.fn() as typeof fetch;
+    // Don't carry a signed-in session over from the previous test
+    endSession();
+    // Nor failed-login counts (they decide when the CAPTCHA appears)
+    sessionStorage.clear();
   });
 
   afterEach(() => {
@@ -48,7 +56,9 @@ describe('Login Component', () => {
   const renderLogin = (props = {}) => {
     return render(
       <BrowserRouter>
-        <Login onLoginSuccess={mockOnLoginSuccess} {...props} />
+        <SessionProvider>
+          <Login onLoginSuccess={mockOnLoginSuccess} {...props} />
+        </SessionProvider>
       </BrowserRouter>
     );
   };
@@ -157,17 +167,17 @@ describe('Login Component', () => {
       await user.click(submitButton);
 
       await waitFor(() => {
-        expect(globalThis.fetch).toHaveBeenCalledWith('/api/auth/login', {
+        expect(globalThis.fetch).toHaveBeenCalledWith('/api/auth/login', expect.objectContaining({
           method: 'POST',
-          headers: {
+          headers: expect.objectContaining({
             'Content-Type': 'application/json',
-          },
+          }),
           body: JSON.stringify({
             email: 'test@example.com',
             username: 'test@example.com',
             password: 'password123',
           }),
-        });
+        }));
       });
 
       await waitFor(() => {
@@ -275,7 +285,7 @@ describe('Login Component', () => {
         json: async () => mockResponse,
       });
 
-      render(<BrowserRouter><Login /></BrowserRouter>);
+      render(<BrowserRouter><SessionProvider><Login /></SessionProvider></BrowserRouter>);
 
       await user.type(screen.getByLabelText(/email/i), 'test@example.com');
       await user.type(screen.getByLabelText(/password/i), 'password123');
@@ -499,6 +509,50 @@ describe('Login Component', () => {
     });
   });
 
+  describe('Return To Original Page', () => {
+    const renderLoginFrom = (from: string) =>
+      render(
+        <MemoryRouter initialEntries={[{ pathname: '/login', state: { from } }]}>
+          <SessionProvider>
+            <Login />
+          </SessionProvider>
+        </MemoryRouter>
+      );
+
+    const submitValidLogin = async () => {
+      const user = userEvent.setup();
+      (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({ token: 'test-token' }),
+      });
+
+      await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+    };
+
+    it('should navigate back to the protected page that redirected to login', async () => {
+      renderLoginFrom('/user-account?tab=security');
+      await submitValidLogin();
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/user-account?tab=security');
+      });
+    });
+
+    it('should ignore external or malformed return targets', async () => {
+      renderLoginFrom('//evil.example.com/phish');
+      await submitValidLogin();
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/');
+      });
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should normalize email to lowercase for API and localStorage', async () => {
       const user = userEvent.setup();
@@ -519,17 +573,17 @@ describe('Login Component', () => {
       await user.click(screen.getByRole('button', { name: /login/i }));
 
       await waitFor(() => {
-        expect(globalThis.fetch).toHaveBeenCalledWith('/api/auth/login', {
+        expect(globalThis.fetch).toHaveBeenCalledWith('/api/auth/login', expect.objectContaining({
           method: 'POST',
-          headers: {
+          headers: expect.objectContaining({
             'Content-Type': 'application/json',
-          },
+          }),
           body: JSON.stringify({
             email: 'user@example.com',
             username: 'user@example.com',
             password: 'password123',
           }),
-        });
+        }));
         expect(localStorage.setItem).toHaveBeenCalledWith('userEmail', 'user@example.com');
       });
     });
@@ -589,5 +643,274 @@ describe('Login Component', () => {
       });
     });
   });
-});
 
+  describe('Two-Factor Authentication', () => {
+    const submitCredentials = async (user: ReturnType<typeof userEvent.setup>) => {
+      await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+    };
+
+    it('should ask for a code and only start the session once it is verified', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { mfaRequired: true, mfaToken: 'mfa-123', methods: ['totp'] }));
+
+      renderLogin();
+      await submitCredentials(user);
+
+      const codeInput = await screen.findByLabelText(/verification code/i);
+      expect(localStorage.setItem).not.toHaveBeenCalledWith('userEmail', expect.anything());
+      expect(mockOnLoginSuccess).not.toHaveBeenCalled();
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { token: 'final-token' }));
+      await user.type(codeInput, '123456');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      await waitFor(() => {
+        expect(fetchMock).toHaveBeenCalledWith(
+          '/api/auth/mfa/verify',
+          expect.objectContaining({
+            body: JSON.stringify({ mfaToken: 'mfa-123', method: 'totp', code: '123456' }),
+          })
+        );
+        expect(localStorage.setItem).toHaveBeenCalledWith('token', 'final-token');
+        expect(mockOnLoginSuccess).toHaveBeenCalledTimes(1);
+        expect(mockNavigate).toHaveBeenCalledWith('/');
+      });
+    });
+
+    it('should show the remaining attempts after a wrong code', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { mfaRequired: true, mfaToken: 'mfa-123' }));
+
+      renderLogin();
+      await submitCredentials(user);
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(400, { message: 'Invalid code', attemptsRemaining: 2 }));
+      await user.type(await screen.findByLabelText(/verification code/i), '000000');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      expect(await screen.findByText(/invalid code \(2 attempts left\)/i)).toBeInTheDocument();
+      expect(mockOnLoginSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Magic Link', () => {
+    it('should email a sign-in link to the normalized address', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({ message: 'Check your inbox' }),
+      });
+
+      renderLogin();
+      await user.click(screen.getByRole('button', { name: /email me a sign-in link instead/i }));
+      expect(screen.queryByLabelText(/password/i)).not.toBeInTheDocument();
+
+      await user.type(screen.getByLabelText(/email/i), '  Test@Example.COM ');
+      await user.click(screen.getByRole('button', { name: /^email me a sign-in link$/i }));
+
+      expect(await screen.findByText('Check your inbox')).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/auth/magic-link',
+        expect.objectContaining({ method: 'POST', body: expect.stringContaining('"email":"test@example.com"') })
+      );
+      expect(mockOnLoginSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Lockout and Rate Limits', () => {
+    const submitCredentials = async (user: ReturnType<typeof userEvent.setup>) => {
+      await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+    };
+
+    it('should show remaining attempts after a failed login', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid credentials', attemptsRemaining: 1 }));
+
+      renderLogin();
+      await submitCredentials(user);
+
+      expect(await screen.findByText(/invalid credentials \(1 attempt left\)/i)).toBeInTheDocument();
+    });
+
+    it('should disable the form with a countdown when the backend throttles logins', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(429, { message: 'Too many login attempts' }, { 'retry-after': '75' }));
+
+      renderLogin();
+      await submitCredentials(user);
+
+      expect(await screen.findByText('Too many login attempts')).toBeInTheDocument();
+      expect(screen.getByText('1:15')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /login/i })).toBeDisabled();
+    });
+
+    it('should keep the form disabled while a lockout has no known end', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(423, { message: 'Account locked' }));
+
+      renderLogin();
+      await submitCredentials(user);
+
+      expect(await screen.findByText('Account locked')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /^login$/i })).toBeDisabled();
+    });
+
+    it('should offer an unlock email when the account is locked', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(423, { message: 'Account locked' }));
+
+      renderLogin();
+      await submitCredentials(user);
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { message: 'Unlock email sent' }));
+      await user.click(await screen.findByRole('button', { name: /email me an unlock link/i }));
+
+      expect(await screen.findByText('Unlock email sent')).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/auth/unlock',
+        expect.objectContaining({ method: 'POST', body: expect.stringContaining('"email":"test@example.com"') })
+      );
+    });
+  });
+
+  describe('Unverified Email', () => {
+    it('should offer to resend the verification email and then start a cooldown', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(403, { code: 'EMAIL_NOT_VERIFIED', message: 'Email not verified' }));
+
+      renderLogin();
+      await user.type(screen.getByLabelText(/email/i), 'Test@Example.com');
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { message: 'Verification email sent' }));
+      await user.click(await screen.findByRole('button', { name: /resend verification email/i }));
+
+      expect(await screen.findByText('Verification email sent')).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/auth/resend-verification',
+        expect.objectContaining({ method: 'POST', body: expect.stringContaining('"email":"test@example.com"') })
+      );
+      expect(screen.getByRole('button', { name: /resend available in 1:00/i })).toBeDisabled();
+    });
+  });
+
+  describe('CAPTCHA', () => {
+    it('should require the challenge when the backend asks for it and send its token', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce(jsonResponse(400, { code: 'CAPTCHA_REQUIRED', message: 'Captcha required' }));
+
+      renderLogin();
+      await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+
+      const challenge = await screen.findByLabelText(/i'm not a robot/i);
+      await user.click(screen.getByRole('button', { name: /login/i }));
+      expect(screen.getByText(/please complete the challenge before logging in/i)).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { token: 'captcha-ok-token' }));
+      await user.click(challenge);
+      await user.click(screen.getByRole('button', { name: /login/i }));
+
+      await waitFor(() => {
+        expect(fetchMock).toHaveBeenCalledWith(
+          '/api/auth/login',
+          expect.objectContaining({ body: expect.stringMatching(/"captchaToken":"local-captcha-\d+"/) })
+        );
+        expect(mockOnLoginSuccess).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should show the backend error when it asks for a challenge but no provider is configured', async () => {
+      const configuredProvider = config.captcha.provider;
+      config.captcha.provider = 'none';
+      try {
+        const user = userEvent.setup();
+        const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+        fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+        fetchMock.mockResolvedValueOnce(jsonResponse(400, { code: 'CAPTCHA_REQUIRED', message: 'Captcha required' }));
+
+        renderLogin();
+        await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+        await user.type(screen.getByLabelText(/password/i), 'password123');
+        await user.click(screen.getByRole('button', { name: /login/i }));
+
+        expect(await screen.findByText(/captcha required/i)).toBeInTheDocument();
+        expect(screen.queryByText(/please complete the challenge/i)).not.toBeInTheDocument();
+        expect(screen.queryByLabelText(/i'm not a robot/i)).not.toBeInTheDocument();
+      } finally {
+        config.captcha.provider = configuredProvider;
+      }
+    });
+  });
+
+  describe('Field Validation', () => {
+    it('should show inline errors instead of submitting an invalid form', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+
+      renderLogin();
+      await user.type(screen.getByLabelText(/email/i), 'not-an-email');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+
+      expect(screen.getByText('Enter a valid email address')).toBeInTheDocument();
+      expect(screen.getByText('Please enter your password')).toBeInTheDocument();
+      expect(screen.getByLabelText(/email/i)).toHaveAttribute('aria-invalid', 'true');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      // Once shown, errors follow the user's typing
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      expect(screen.queryByText('Please enter your password')).not.toBeInTheDocument();
+    });
+
+    it('should show server field errors under the matching input', async () => {
+      const user = userEvent.setup();
+      const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+      fetchMock.mockResolvedValueOnce(mockOAuth2ProvidersResponse);
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({
+          message: 'Validation failed',
+          errors: [{ field: 'username', defaultMessage: 'must be a well-formed email address' }],
+        }),
+      });
+
+      renderLogin();
+      await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+
+      expect(await screen.findByText('must be a well-formed email address')).toHaveAttribute('id', 'email-error');
+      expect(screen.queryByText(/error:/i)).not.toBeInTheDocument();
+    });
+  });
+});
@@ -2,14 +2,48 @@ import { useState, useEffect } from 'react';
 import type { FormEvent } from 'react';
 import { useNavigate, Link, useLocation } from 'react-router-dom';
 import OAuth2Buttons from '../oauth2/OAuth2Buttons';
-import { getApiUrl } from '../../utils/api';
+import MfaChallenge from '../mfa/MfaChallenge';
+import ThrottleNotice from '../rate-limit/ThrottleNotice';
+import CaptchaChallenge from '../captcha/CaptchaChallenge';
+import { apiRequest, errorMessage } from '../../utils/apiClient';
 import { normalizeEmail } from '../../utils/email';
+import { useSession } from '../../session/useSession';
+import { getSessionEndReason } from '../../session/sessionStore';
+import { supportsRememberMe, usesCookieAuth } from '../../session/tokenStorage';
+import { sanitizeReturnTo } from '../../utils/returnTo';
+import type { LoginRedirectState } from '../protected-route/ProtectedRoute';
+import { mfaChallengeFromResponse, type MfaChallenge as MfaChallengeData } from '../../utils/mfa';
+import { isWebAuthnSupported, passkeyErrorMessage, signInWithPasskey } from '../../utils/webauthn';
+import { getTokenEmail } from '../../utils/jwt';
+import { requestMagicLink } from '../../utils/magicLink';
+import { formatCountdown, withAttemptsRemaining } from '../../utils/rateLimit';
+import { useThrottle } from '../../utils/useThrottle';
+import { requestAccountUnlock } from '../../utils/accountUnlock';
+import { isEmailNotVerifiedError } from '../../utils/emailVerification';
+import { useResendVerification } from '../../utils/useResendVerification';
+import { useCaptcha } from '../../utils/useCaptcha';
+import { useForm } from '../../utils/useForm';
+import { required, validEmail, type FormSchema } from '../../utils/formValidation';
+import FieldError from '../form/FieldError';
 
 interface LoginFormData {
   email: string;
   password: string;
 }
 
+/** Trim + lowercase on blur so login matches regardless of how the user types their email */
+const loginSchema: FormSchema<LoginFormData> = {
+  email: { normalize: normalizeEmail, rules: [required('Please enter your email'), validEmail()] },
+  password: { rules: [required('Please enter your password')] },
+};
+
+interface LoginResponse {
+  token?: string;
+  refreshToken?: string;
+  refresh_token?: string;
+  message?: string;
+}
+
 interface LoginProps {
   onLoginSuccess?: () => void;
 }
@@ -17,14 +51,47 @@ interface LoginProps {
 const Login = ({ onLoginSuccess }: LoginProps) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const [formData, setFormData] = useState<LoginFormData>({
-    email: '',
-    password: '',
+  const { login } = useSession();
+  // Page that sent the user here (ProtectedRoute); validated before it is ever navigated to
+  const [returnTo] = useState<string>(
+    () => sanitizeReturnTo((location.state as LoginRedirectState | null)?.from) ?? '/'
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [infoMessage, setInfoMessage] = useState<string | null>(() =>
+    getSessionEndReason() === 'expired' ? 'Your session has expired. Please log in again.' : null
+  );
+  const form = useForm<LoginFormData>({
+    // Prefilled when Register found the address already registered
+    initialValues: { email: (location.state as { email?: string } | null)?.email ?? '', password: '' },
+    schema: loginSchema,
+    // The backend may report the principal as "username" (sent alongside email)
+    serverFieldAliases: { username: 'email' },
+    onEdit: () => {
+      setError(null);
+      setInfoMessage(null);
+    },
   });
 
+  // Checked by default: keeps the session across browser restarts, as before the option existed
+  const [rememberMe, setRememberMe] = useState<boolean>(true);
+  // Set when the backend asks for a second factor; the session starts only after it is verified
+  const [mfaChallenge, setMfaChallenge] = useState<{ challenge: MfaChallengeData; email: string } | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [infoMessage, setInfoMessage] = useState<string | null>(null);
+  const [passkeyLoading, setPasskeyLoading] = useState<boolean>(false);
+  // "Email me a sign-in link" instead of the password form (opened directly from an expired link)
+  const [mode, setMode] = useState<'password' | 'magic-link'>(() =>
+    (location.state as { magicLink?: boolean } | null)?.magicLink ? 'magic-link' : 'password'
+  );
+  const [magicLinkSent, setMagicLinkSent] = useState<boolean>(false);
+  // 423/429 from the backend: the form stays disabled until the countdown ends
+  const { throttle, secondsLeft, isThrottled, handleThrottle, clearThrottle } = useThrottle();
+  const [unlockLoading, setUnlockLoading] = useState<boolean>(false);
+  const [unlockRequested, setUnlockRequested] = useState<boolean>(false);
+  // Set when the login was refused because this address is not verified yet
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const resendVerification = useResendVerification();
+  // Bot challenge after repeated failures, or as soon as the backend asks for one
+  const captcha = useCaptcha('login');
 
   // Check for OAuth2 error or password-reset success from location state
   useEffect(() => {
@@ -44,83 +111,145 @@ const Login = ({ onLoginSuccess }: LoginProps) => {
     }
   }, [location]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
-    // Clear error when user starts typing
-    if (error) setError(null);
-    if (infoMessage) setInfoMessage(null);
+  const completeLogin = (data: LoginResponse, email: string) => {
+    // Start the session: token (if provided) and canonical email for fetching user info
+    login({
+      token: data.token,
+      refreshToken: data.refreshToken ?? data.refresh_token,
+      email,
+      remember: rememberMe,
+    });
+
+    // Call success callback if provided
+    if (onLoginSuccess) {
+      onLoginSuccess();
+    }
+
+    // Redirect back to the page the user was trying to open (main page by default)
+    navigate(returnTo);
+  };
+
+  const switchMode = (next: 'password' | 'magic-link') => {
+    setMode(next);
+    setMagicLinkSent(false);
+    setError(null);
+    setInfoMessage(null);
+  };
+
+  const handleUnlockRequest = async () => {
+    setUnlockLoading(true);
+    setError(null);
+
+    try {
+      const email = normalizeEmail(form.values.email);
+      setInfoMessage(await requestAccountUnlock(email));
+      setUnlockRequested(true);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to send unlock email'));
+      console.error('Unlock request error:', err);
+    } finally {
+      setUnlockLoading(false);
+    }
+  };
+
+  const handleMagicLinkSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!form.validate(['email'])) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    setInfoMessage(null);
+
+    try {
+      const email = normalizeEmail(form.values.email);
+      form.setValue('email', email);
+      setInfoMessage(await requestMagicLink(email));
+      setMagicLinkSent(true);
+    } catch (err) {
+      if (!handleThrottle(err)) {
+        setError(form.applyServerErrors(err, 'Failed to send sign-in link'));
+      }
+      console.error('Magic link request error:', err);
+    } finally {
+      setLoading(false);
+    }
   };
 
-  /** Trim + lowercase so login matches regardless of how the user types their email. */
-  const handleEmailBlur = () => {
-    setFormData((prev) => ({
-      ...prev,
-      email: normalizeEmail(prev.email),
-    }));
+  const handlePasskeySignIn = async () => {
+    setPasskeyLoading(true);
+    setError(null);
+
+    try {
+      const data = await signInWithPasskey();
+      // The passkey identifies the account; take its email from the response or the token
+      const email = normalizeEmail(data.user?.email || data.email || (data.token && getTokenEmail(data.token)) || '');
+      if (!email) {
+        throw new Error('Passkey sign-in succeeded but the server did not return your account email.');
+      }
+      console.log('Passkey login successful');
+      completeLogin(data, email);
+    } catch (err) {
+      setError(passkeyErrorMessage(err, 'Passkey sign-in failed'));
+      console.error('Passkey login error:', err);
+    } finally {
+      setPasskeyLoading(false);
+    }
   };
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (!form.validate()) {
+      return;
+    }
+    if (captcha.required && !captcha.token) {
+      setError('Please complete the challenge before logging in.');
+      return;
+    }
     setLoading(true);
     setError(null);
+    clearThrottle();
+    setUnlockRequested(false);
+    setUnverifiedEmail(null);
 
     try {
-      const email = normalizeEmail(formData.email);
-      const response = await fetch(getApiUrl('/api/auth/login'), {
+      const email = normalizeEmail(form.values.email);
+      const data = await apiRequest<LoginResponse>('/api/auth/login', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+        auth: false,
+        body: {
           email,
           // Many backends (e.g. Spring Security) use "username" for the login principal; keep in sync with email.
           username: email,
-          password: formData.password,
-        }),
+          password: form.values.password,
+          // Cookie mode: lets the backend choose between a session cookie and a persistent one
+          ...(usesCookieAuth() ? { rememberMe } : {}),
+          ...captcha.fields,
+        },
       });
+      captcha.recordSuccess();
 
-      if (!response.ok) {
-        const contentType = response.headers.get('content-type');
-        let errorData;
-        if (contentType && contentType.includes('application/json')) {
-          errorData = await response.json().catch(() => ({ message: 'Login failed' }));
-        } else {
-          const text = await response.text();
-          errorData = { message: `Server error (${response.status}): ${text.substring(0, 100)}` };
-        }
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        const text = await response.text();
-        throw new Error(`Expected JSON but got: ${contentType}. Response: ${text.substring(0, 100)}`);
+      // Password accepted, but a second factor is required before the session starts
+      const challenge = mfaChallengeFromResponse(data);
+      if (challenge) {
+        setMfaChallenge({ challenge, email });
+        form.setValue('password', '');
+        return;
       }
 
-      const data = await response.json();
       console.log('Login successful:', data);
-      
-      // Store token if provided
-      if (data.token) {
-        localStorage.setItem('token', data.token);
-      }
-
-      // Store email for fetching user info (canonical form)
-      localStorage.setItem('userEmail', email);
-
-      // Call success callback if provided
-      if (onLoginSuccess) {
-        onLoginSuccess();
-      }
-
-      // Redirect to main page after successful login
-      navigate('/');
+      completeLogin(data, email);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to login');
+      if (captcha.recordFailure(err)) {
+        setError('Please complete the challenge and try again.');
+      } else if (isEmailNotVerifiedError(err)) {
+        setUnverifiedEmail(normalizeEmail(form.values.email));
+        setError(errorMessage(err, 'Please verify your email address before logging in.'));
+      } else if (!handleThrottle(err)) {
+        // Wrong credentials: show how many tries are left before the account locks, when known
+        const banner = form.applyServerErrors(err, 'Failed to login');
+        setError(banner && withAttemptsRemaining(banner, err));
+      }
       console.error('Login error:', err);
     } finally {
       setLoading(false);
@@ -133,6 +262,12 @@ const Login = ({ onLoginSuccess }: LoginProps) => {
         <div className="bg-white rounded-lg shadow-md border border-gray-200/80 p-3">
           <h1 className="text-xl font-bold text-gray-900 mb-2 text-center">Login</h1>
 
+          {infoMessage && (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-md p-2 mb-2">
+              <p className="text-xs text-emerald-900 wrap-break-word leading-snug">{infoMessage}</p>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-md p-2 mb-2">
               <div className="flex items-start gap-2">
@@ -153,107 +288,257 @@ const Login = ({ onLoginSuccess }: LoginProps) => {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-2">
-            {/* Email */}
-            <div className="w-full">
-              <label htmlFor="email" className="block text-xs font-medium text-gray-700 mb-0.5">
-                Email
-              </label>
-              <input
-                type="email"
-                id="email"
-                name="email"
-                value={formData.email}
-                onChange={handleChange}
-                onBlur={handleEmailBlur}
-                required
-                className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
-                placeholder="Enter your email"
-                autoComplete="email"
-              />
-            </div>
-
-            {/* Password */}
-            <div className="w-full">
-              <label htmlFor="password" className="block text-xs font-medium text-gray-700 mb-0.5">
-                Password
-              </label>
-              <input
-                type="password"
-                id="password"
-                name="password"
-                value={formData.password}
-                onChange={handleChange}
-                required
-                className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
-                placeholder="Enter your password"
-                autoComplete="current-password"
-              />
-              <div className="mt-1 text-right">
+          {unverifiedEmail && !mfaChallenge && (
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-2 mb-2">
+              {resendVerification.message && (
+                <p className="text-xs text-emerald-800 wrap-break-word leading-snug mb-1">{resendVerification.message}</p>
+              )}
+              {resendVerification.error && (
+                <p className="text-xs text-red-700 wrap-break-word leading-snug mb-1">{resendVerification.error}</p>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={() => void resendVerification.resend(unverifiedEmail)}
+                  disabled={resendVerification.sending || resendVerification.secondsLeft > 0}
+                  className="text-[11px] font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {resendVerification.sending
+                    ? 'Sending...'
+                    : resendVerification.secondsLeft > 0
+                      ? `Resend available in ${formatCountdown(resendVerification.secondsLeft)}`
+                      : 'Resend verification email'}
+                </button>
                 <Link
-                  to="/forgot-password"
-                  className="text-[11px] font-medium text-indigo-600 hover:text-indigo-500"
+                  to="/resend-verification"
+                  state={{ email: unverifiedEmail }}
+                  className="text-[11px] text-gray-600 hover:text-gray-800"
                 >
-                  Forgot password?
+                  Use another address
                 </Link>
               </div>
             </div>
+          )}
+
+          {throttle && !mfaChallenge && (
+            <ThrottleNotice throttle={throttle} secondsLeft={secondsLeft}>
+              {throttle.kind === 'locked' && !unlockRequested && (
+                <button
+                  type="button"
+                  onClick={handleUnlockRequest}
+                  disabled={unlockLoading || !form.values.email.trim()}
+                  className="mt-1.5 text-[11px] font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {unlockLoading ? 'Sending unlock email...' : 'Email me an unlock link'}
+                </button>
+              )}
+            </ThrottleNotice>
+          )}
+
+          {mfaChallenge ? (
+            <MfaChallenge
+              challenge={mfaChallenge.challenge}
+              onVerified={(result) => completeLogin(result, mfaChallenge.email)}
+              onCancel={() => setMfaChallenge(null)}
+            />
+          ) : mode === 'magic-link' ? (
+            <div>
+              <p className="text-[11px] text-gray-500 text-center mb-2 leading-snug">
+                We&apos;ll email you a link that signs you in without a password.
+              </p>
+              {!magicLinkSent && (
+                <form onSubmit={handleMagicLinkSubmit} noValidate className="space-y-2">
+                  <div className="w-full">
+                    <label htmlFor="email" className="block text-xs font-medium text-gray-700 mb-0.5">
+                      Email
+                    </label>
+                    <input
+                      type="email"
+                      {...form.field('email')}
+                      required
+                      className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
+                      placeholder="Enter your email"
+                      autoComplete="email"
+                    />
+                    <FieldError inputId="email" message={form.errors.email} />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={loading || isThrottled}
+                    className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {loading ? 'Sending link...' : 'Email me a sign-in link'}
+                  </button>
+                </form>
+              )}
+              <div className="mt-3 flex justify-center gap-3 text-[11px]">
+                {magicLinkSent && (
+                  <button
+                    type="button"
+                    onClick={() => switchMode('magic-link')}
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Send another link
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => switchMode('password')}
+                  className="font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  Sign in with password instead
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} noValidate className="space-y-2">
+                {/* Email */}
+                <div className="w-full">
+                  <label htmlFor="email" className="block text-xs font-medium text-gray-700 mb-0.5">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    {...form.field('email')}
+                    required
+                    className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
+                    placeholder="Enter your email"
+                    autoComplete="email"
+                  />
+                  <FieldError inputId="email" message={form.errors.email} />
+                </div>
 
-            {/* Submit Button */}
-            <div className="pt-0.5">
-              <button
-                type="submit"
-                disabled={loading}
-                className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-              >
-                {loading ? (
-                  <span className="flex items-center justify-center gap-1.5">
-                    <svg
-                      className="animate-spin h-3.5 w-3.5 text-white shrink-0"
-                      xmlns="http://www.w3.org/2000/svg"
-                      fill="none"
-                      viewBox="0 0 24 24"
+                {/* Password */}
+                <div className="w-full">
+                  <label htmlFor="password" className="block text-xs font-medium text-gray-700 mb-0.5">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    {...form.field('password')}
+                    required
+                    className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
+                    placeholder="Enter your password"
+                    autoComplete="current-password"
+                  />
+                  <FieldError inputId="password" message={form.errors.password} />
+                  <div className="mt-1 flex items-center justify-between">
+                    {supportsRememberMe() ? (
+                      <label htmlFor="rememberMe" className="flex items-center gap-1.5 text-[11px] text-gray-700">
+                        <input
+                          type="checkbox"
+                          id="rememberMe"
+                          name="rememberMe"
+                          checked={rememberMe}
+                          onChange={(e) => setRememberMe(e.target.checked)}
+                          className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Remember me
+                      </label>
+                    ) : (
+                      <span />
+                    )}
+                    <Link
+                      to="/forgot-password"
+                      className="text-[11px] font-medium text-indigo-600 hover:text-indigo-500"
                     >
-                      <circle
-                        className="opacity-25"
-                        cx="12"
-                        cy="12"
-                        r="10"
-                        stroke="currentColor"
-                        strokeWidth="4"
-                      ></circle>
+                      Forgot password?
+                    </Link>
+                  </div>
+                </div>
+
+                {captcha.required && <CaptchaChallenge key={captcha.widgetKey} onToken={captcha.setToken} />}
+
+                {/* Submit Button */}
+                <div className="pt-0.5">
+                  <button
+                    type="submit"
+                    disabled={loading || isThrottled}
+                    className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {loading ? (
+                      <span className="flex items-center justify-center gap-1.5">
+                        <svg
+                          className="animate-spin h-3.5 w-3.5 text-white shrink-0"
+                          xmlns="http://www.w3.org/2000/svg"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                        >
+                          <circle
+                            className="opacity-25"
+                            cx="12"
+                            cy="12"
+                            r="10"
+                            stroke="currentColor"
+                            strokeWidth="4"
+                          ></circle>
+                          <path
+                            className="opacity-75"
+                            fill="currentColor"
+                            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                          ></path>
+                        </svg>
+                        <span className="text-xs">Logging in...</span>
+                      </span>
+                    ) : (
+                      'Login'
+                    )}
+                  </button>
+                </div>
+              </form>
+
+              <div className="mt-1.5 text-center">
+                <button
+                  type="button"
+                  onClick={() => switchMode('magic-link')}
+                  className="text-[11px] font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  Email me a sign-in link instead
+                </button>
+              </div>
+
+              {/* Passkey (hidden when the browser has no WebAuthn support) */}
+              {isWebAuthnSupported() && (
+                <div className="mt-2">
+                  <button
+                    type="button"
+                    onClick={handlePasskeySignIn}
+                    disabled={passkeyLoading || loading}
+                    className="w-full flex items-center justify-center gap-1.5 px-3 py-2 border border-gray-300 rounded-md text-xs font-medium bg-white text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    <svg className="h-4 w-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path
-                        className="opacity-75"
-                        fill="currentColor"
-                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                      ></path>
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+                      />
                     </svg>
-                    <span className="text-xs">Logging in...</span>
-                  </span>
-                ) : (
-                  'Login'
-                )}
-              </button>
-            </div>
-          </form>
-
-          {/* OAuth2 Buttons */}
-          <div className="mt-3">
-            <OAuth2Buttons />
-          </div>
-
-          {/* Link to Register */}
-          <div className="mt-3 text-center">
-            <p className="text-xs text-gray-600">
-              Don&apos;t have an account?{' '}
-              <Link
-                to="/register"
-                className="font-medium text-indigo-600 hover:text-indigo-500"
-              >
-                Register here
-              </Link>
-            </p>
-          </div>
+                    {passkeyLoading ? 'Waiting for passkey...' : 'Sign in with a passkey'}
+                  </button>
+                </div>
+              )}
+
+              {/* OAuth2 Buttons */}
+              <div className="mt-3">
+                <OAuth2Buttons returnTo={returnTo} rememberMe={rememberMe} />
+              </div>
+
+              {/* Link to Register */}
+              <div className="mt-3 text-center">
+                <p className="text-xs text-gray-600">
+                  Don&apos;t have an account?{' '}
+                  <Link
+                    to="/register"
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Register here
+                  </Link>
+                </p>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { ApiError, errorMessage } from '../../utils/apiClient';
+import { consumeMagicLink, type MagicLinkLoginResponse } from '../../utils/magicLink';
+import { mfaChallengeFromResponse, type MfaChallenge as MfaChallengeData } from '../../utils/mfa';
+import { getTokenEmail } from '../../utils/jwt';
+import { normalizeEmail } from '../../utils/email';
+import { useSession } from '../../session/useSession';
+import MfaChallenge from '../mfa/MfaChallenge';
+
+/** Account the link signed in (response, else token claims) */
+const accountEmail = (data: MagicLinkLoginResponse): string => {
+  const email = normalizeEmail(data.user?.email || data.email || (data.token && getTokenEmail(data.token)) || '');
+  if (!email) {
+    throw new Error('Sign-in succeeded but the server did not return your account email.');
+  }
+  return email;
+};
+
+const MagicLink = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { login } = useSession();
+  const [status, setStatus] = useState<'loading' | 'mfa' | 'error'>('loading');
+  const [message, setMessage] = useState<string>('');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallengeData | null>(null);
+  const hasConsumedRef = useRef<boolean>(false);
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    // The link works once; never send its token twice (StrictMode, re-renders)
+    if (hasConsumedRef.current) {
+      return;
+    }
+    hasConsumedRef.current = true;
+
+    const signIn = async () => {
+      if (!token) {
+        setStatus('error');
+        setMessage('Sign-in token is missing. Please check your email link.');
+        return;
+      }
+
+      try {
+        const data = await consumeMagicLink(token);
+        const challenge = mfaChallengeFromResponse(data);
+        if (challenge) {
+          setMfaChallenge(challenge);
+          setStatus('mfa');
+          return;
+        }
+        login({ token: data.token, refreshToken: data.refreshToken ?? data.refresh_token, email: accountEmail(data) });
+        console.log('Magic link login successful');
+        navigate('/', { replace: true });
+      } catch (error) {
+        console.error('Magic link error:', error);
+        setStatus('error');
+        if (error instanceof ApiError && [400, 401, 404, 410].includes(error.status)) {
+          setMessage(errorMessage(error, 'This sign-in link is invalid or has expired.'));
+        } else {
+          setMessage(errorMessage(error, 'An error occurred while signing you in. Please try again later.'));
+        }
+      }
+    };
+
+    signIn();
+  }, [token, login, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8">
+        {status === 'loading' && (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Signing you in...</h2>
+            <p className="mt-2 text-gray-600">Please wait while we check your sign-in link.</p>
+          </div>
+        )}
+
+        {status === 'mfa' && mfaChallenge && (
+          <MfaChallenge
+            challenge={mfaChallenge}
+            onVerified={(result) => {
+              try {
+                login({
+                  token: result.token,
+                  refreshToken: result.refreshToken ?? result.refresh_token,
+                  email: accountEmail(result),
+                });
+                navigate('/', { replace: true });
+              } catch (error) {
+                setStatus('error');
+                setMessage(errorMessage(error, 'Sign-in failed'));
+              }
+            }}
+            onCancel={() => navigate('/login', { replace: true })}
+          />
+        )}
+
+        {status === 'error' && (
+          <div className="text-center">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
+              <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </div>
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Sign-in Link Not Valid</h2>
+            <div className="mt-4 text-left bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-700 text-sm">{message}</p>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">Sign-in links can be used once and expire after a short time.</p>
+            <div className="mt-6 space-y-3">
+              <button
+                onClick={() => navigate('/login', { replace: true, state: { magicLink: true } })}
+                className="w-full bg-indigo-600 text-white py-2.5 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium"
+              >
+                Request a New Link
+              </button>
+              <button
+                onClick={() => navigate('/login', { replace: true })}
+                className="w-full bg-gray-200 text-gray-800 py-2.5 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+              >
+                Go to Login
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MagicLink;
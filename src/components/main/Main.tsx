@@ -1,16 +1,14 @@
 import { useState, useEffect } from 'react';
-import { getApiUrl } from '../../utils/api';
+import { apiRequest, errorMessage } from '../../utils/apiClient';
+import { useSession } from '../../session/useSession';
 
 interface ApiResponse {
   message?: string;
   [key: string]: unknown;
 }
 
-interface MainProps {
-  isAuthenticated?: boolean;
-}
-
-const Main = ({ isAuthenticated: _isAuthenticated = false }: MainProps) => {
+const Main = () => {
+  const { isAuthenticated, user } = useSession();
   const [message, setMessage] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -21,16 +19,10 @@ const Main = ({ isAuthenticated: _isAuthenticated = false }: MainProps) => {
         setLoading(true);
         setError(null);
         
-        const response = await fetch(getApiUrl('/api/users/hello'));
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data: ApiResponse = await response.json();
+        const data = await apiRequest<ApiResponse>('/api/users/hello');
         setMessage(data.message || JSON.stringify(data));
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch message');
+        setError(errorMessage(err, 'Failed to fetch message'));
         console.error('Error fetching message:', err);
       } finally {
         setLoading(false);
@@ -45,6 +37,12 @@ const Main = ({ isAuthenticated: _isAuthenticated = false }: MainProps) => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="bg-white rounded-lg shadow-lg p-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-6">Main Dashboard</h1>
+
+          {isAuthenticated && user && (
+            <p className="text-sm text-gray-600 -mt-4 mb-6">
+              Signed in as <span className="font-medium text-gray-900">{user.email}</span>
+            </p>
+          )}
           
           {loading && (
             <div className="flex items-center justify-center py-8">
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { errorMessage } from '../../utils/apiClient';
+import { withAttemptsRemaining } from '../../utils/rateLimit';
+import {
+  isMfaChallengeExpired,
+  isMfaLockout,
+  sendMfaEmailCode,
+  verifyMfaCode,
+  type MfaChallenge as MfaChallengeData,
+  type MfaMethod,
+  type MfaVerifyResponse,
+} from '../../utils/mfa';
+
+interface MfaChallengeProps {
+  challenge: MfaChallengeData;
+  /** Called with the login tokens once the code is accepted */
+  onVerified: (result: MfaVerifyResponse) => void;
+  /** Abandon the login (back to the sign-in form) */
+  onCancel: () => void;
+}
+
+const METHOD_LABELS: Record<MfaMethod, string> = {
+  totp: 'Authenticator app',
+  email: 'Email code',
+  recovery: 'Recovery code',
+};
+
+const MfaChallenge = ({ challenge, onVerified, onCancel }: MfaChallengeProps) => {
+  const [method, setMethod] = useState<MfaMethod>(challenge.methods[0]);
+  const [code, setCode] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [sendingEmail, setSendingEmail] = useState<boolean>(false);
+  const [emailSent, setEmailSent] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [locked, setLocked] = useState<boolean>(false);
+  const [expired, setExpired] = useState<boolean>(false);
+
+  const selectMethod = (next: MfaMethod) => {
+    setMethod(next);
+    setCode('');
+    setError(null);
+  };
+
+  const handleSendEmailCode = async () => {
+    setSendingEmail(true);
+    setError(null);
+    try {
+      await sendMfaEmailCode(challenge);
+      setEmailSent(true);
+    } catch (err) {
+      setError(errorMessage(err, 'Could not send the code. Please try again.'));
+      console.error('MFA email code error:', err);
+    } finally {
+      setSendingEmail(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await verifyMfaCode(challenge, method, code);
+      onVerified(result);
+    } catch (err) {
+      console.error('MFA verification error:', err);
+      setCode('');
+      if (isMfaLockout(err)) {
+        setLocked(true);
+        setError(errorMessage(err, 'Too many incorrect codes. Please wait a few minutes and sign in again.'));
+      } else if (isMfaChallengeExpired(err)) {
+        setExpired(true);
+        setError('This sign-in attempt has expired. Please sign in again.');
+      } else {
+        setError(withAttemptsRemaining(errorMessage(err, 'Invalid code'), err));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const blocked = locked || expired;
+  const isRecovery = method === 'recovery';
+
+  return (
+    <div>
+      <h2 className="text-base font-semibold text-gray-900 text-center">Two-factor authentication</h2>
+      <p className="mt-1 mb-2 text-xs text-gray-600 text-center leading-snug">
+        {method === 'totp' && 'Enter the 6-digit code from your authenticator app.'}
+        {method === 'email' &&
+          (emailSent
+            ? `Enter the code we sent to ${challenge.emailHint ?? 'your email address'}.`
+            : `We'll email a one-time code to ${challenge.emailHint ?? 'your email address'}.`)}
+        {isRecovery && 'Enter one of the recovery codes you saved when you set up two-factor authentication.'}
+      </p>
+
+      {challenge.methods.length > 1 && !isRecovery && (
+        <div className="mb-2 flex gap-1 rounded-md bg-gray-100 p-0.5" role="tablist">
+          {challenge.methods.map((m) => (
+            <button
+              key={m}
+              type="button"
+              role="tab"
+              aria-selected={method === m}
+              onClick={() => selectMethod(m)}
+              disabled={blocked}
+              className={`flex-1 rounded px-2 py-1 text-[11px] font-medium transition-colors ${
+                method === m ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {METHOD_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-2 mb-2">
+          <p className="text-xs text-red-800 font-medium wrap-break-word leading-snug">Error: {error}</p>
+        </div>
+      )}
+
+      {method === 'email' && !emailSent ? (
+        <button
+          type="button"
+          onClick={handleSendEmailCode}
+          disabled={sendingEmail || blocked}
+          className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {sendingEmail ? 'Sending...' : 'Email me a code'}
+        </button>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="w-full">
+            <label htmlFor="mfaCode" className="block text-xs font-medium text-gray-700 mb-0.5">
+              {isRecovery ? 'Recovery code' : 'Verification code'}
+            </label>
+            <input
+              type="text"
+              id="mfaCode"
+              name="mfaCode"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                if (error && !blocked) setError(null);
+              }}
+              required
+              disabled={blocked}
+              autoFocus
+              autoComplete="one-time-code"
+              inputMode={isRecovery ? 'text' : 'numeric'}
+              maxLength={isRecovery ? 32 : 10}
+              className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 tracking-widest focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-100"
+              placeholder={isRecovery ? 'xxxx-xxxx' : '123456'}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading || blocked || !code.trim()}
+            className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {loading ? 'Verifying...' : 'Verify'}
+          </button>
+          {method === 'email' && (
+            <button
+              type="button"
+              onClick={handleSendEmailCode}
+              disabled={sendingEmail || blocked}
+              className="w-full text-[11px] font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+            >
+              {sendingEmail ? 'Sending...' : 'Send a new code'}
+            </button>
+          )}
+        </form>
+      )}
+
+      <div className="mt-3 flex items-center justify-between text-[11px]">
+        <button
+          type="button"
+          onClick={() => selectMethod(isRecovery ? challenge.methods[0] : 'recovery')}
+          disabled={blocked}
+          className="font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+        >
+          {isRecovery ? 'Use a verification code instead' : 'Use a recovery code'}
+        </button>
+        <button type="button" onClick={onCancel} className="font-medium text-gray-600 hover:text-gray-900">
+          Back to login
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MfaChallenge;
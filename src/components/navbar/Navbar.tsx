@@ -1,13 +1,27 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import UserCount from '../user-count/UserCount';
+import { useSession } from '../../session/useSession';
+import { hasPermission } from '../../session/permissions';
+
+interface NavItem {
+  label: string;
+  path: string;
+  permission?: string;
+}
+
+const allNavItems: NavItem[] = [
+  { label: 'Main', path: '/' },
+  { label: 'About', path: '/about' },
+  { label: 'Admin', path: '/admin', permission: 'admin:access' },
+];
 
 interface NavbarProps {
-  isAuthenticated?: boolean;
   onLogout?: () => void;
 }
 
-const Navbar = ({ isAuthenticated = false, onLogout }: NavbarProps) => {
+const Navbar = ({ onLogout }: NavbarProps) => {
+  const { isAuthenticated, permissions } = useSession();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
 
@@ -17,10 +31,10 @@ const Navbar = ({ isAuthenticated = false, onLogout }: NavbarProps) => {
     }
   };
 
-  const navItems = [
-    { label: 'Main', path: '/' },
-    { label: 'About', path: '/about' },
-  ];
+  // Items with a permission are only shown to users who hold it
+  const navItems = allNavItems.filter(
+    (item) => !item.permission || hasPermission(permissions, item.permission)
+  );
 
   return (
     <nav className="bg-blue-500 shadow-lg">
@@ -69,7 +83,7 @@ const Navbar = ({ isAuthenticated = false, onLogout }: NavbarProps) => {
                     onClick={() => setIsProfileDropdownOpen(!isProfileDropdownOpen)}
                     className="flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 rounded-md"
                   >
-                    <UserCount isAuthenticated={isAuthenticated} compact={true} />
+                    <UserCount compact={true} />
                     <svg
                       className={`h-4 w-4 text-white transition-transform ${isProfileDropdownOpen ? 'rotate-180' : ''}`}
                       xmlns="http://www.w3.org/2000/svg"
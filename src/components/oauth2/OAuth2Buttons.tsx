@@ -4,9 +4,13 @@ import { getAvailableOAuth2Providers, initiateOAuth2Login, getProviderDisplayNam
 interface OAuth2ButtonsProps {
   onProviderClick?: (provider: OAuth2Provider) => void;
   className?: string;
+  /** In-app path to return to once the OAuth2 login completes */
+  returnTo?: string;
+  /** "Remember me" choice to apply to the session started by the callback */
+  rememberMe?: boolean;
 }
 
-const OAuth2Buttons = ({ onProviderClick, className = '' }: OAuth2ButtonsProps) => {
+const OAuth2Buttons = ({ onProviderClick, className = '', returnTo, rememberMe = true }: OAuth2ButtonsProps) => {
   const [providers, setProviders] = useState<OAuth2Provider[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
 
@@ -35,7 +39,7 @@ const OAuth2Buttons = ({ onProviderClick, className = '' }: OAuth2ButtonsProps)
       onProviderClick(provider);
     }
     try {
-      await initiateOAuth2Login(provider);
+      await initiateOAuth2Login(provider, returnTo, rememberMe);
     } catch (error) {
       console.error('Error initiating OAuth2 login:', error);
       // Error will be handled by the callback component or can show a toast notification
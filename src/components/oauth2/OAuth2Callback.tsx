@@ -1,6 +1,27 @@
 import { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { getApiUrl, getApiBaseUrl } from '../../utils/api';
+import { getApiBaseUrl } from '../../utils/api';
+import { apiRequest, errorMessage as messageFromError } from '../../utils/apiClient';
+import { useSession } from '../../session/useSession';
+import { OAUTH2_RETURN_TO_STORAGE_KEY, sanitizeReturnTo } from '../../utils/returnTo';
+import { OAUTH2_REMEMBER_ME_STORAGE_KEY } from '../../utils/oauth2';
+import { mfaChallengeFromResponse, type MfaChallenge as MfaChallengeData } from '../../utils/mfa';
+import MfaChallenge from '../mfa/MfaChallenge';
+import { rolesFromClaims } from '../../session/permissions';
+
+interface OAuth2TokenResponse {
+  token?: string;
+  refreshToken?: string;
+  refresh_token?: string;
+  email?: string;
+  role?: string;
+  roles?: string[];
+  user?: { email?: string; role?: string; roles?: string[] };
+}
+
+/** Roles the backend reported with the OAuth2 result (top level or on the user object) */
+const rolesFromOAuth2Response = (data: OAuth2TokenResponse): string[] =>
+  Array.from(new Set([...rolesFromClaims({ ...data }), ...rolesFromClaims(data.user ? { ...data.user } : null)]));
 
 interface OAuth2CallbackProps {
   onLoginSuccess?: () => void;
@@ -9,12 +30,17 @@ interface OAuth2CallbackProps {
 const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const { login } = useSession();
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [showEmailInput, setShowEmailInput] = useState<boolean>(false);
   const [oauth2Email, setOauth2Email] = useState<string>('');
   const [userEmail, setUserEmail] = useState<string>('');
   const [token, setToken] = useState<string>('');
+  const [refreshToken, setRefreshToken] = useState<string>('');
+  const [oauth2Roles, setOauth2Roles] = useState<string[]>([]);
+  // Second factor the backend requires before the OAuth2 login may start a session
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallengeData | null>(null);
 
   useEffect(() => {
     const handleCallback = async () => {
@@ -96,38 +122,39 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
 
         // Try to get token from backend success endpoint (if we're on frontend)
         try {
-          const successResponse = await fetch(getApiUrl('/api/oauth2/success'), {
-            method: 'GET',
-            headers: {
-              'Accept': 'application/json',
-            },
+          const successData = await apiRequest<OAuth2TokenResponse>('/api/oauth2/success', {
+            auth: false,
             credentials: 'include',
           });
 
-          if (successResponse.ok) {
-            const contentType = successResponse.headers.get('content-type');
-            if (contentType && contentType.includes('application/json')) {
-              const successData = await successResponse.json();
-              
-              if (successData.token) {
-                console.log('OAuth2 login successful from success endpoint:', successData);
-                
-                // Store token temporarily (don't store in localStorage yet)
-                setToken(successData.token);
-                
-                // Get email from OAuth2 response
-                const emailFromOAuth = successData.user?.email || successData.email || '';
-                console.log('Email from OAuth2:', emailFromOAuth);
-                setOauth2Email(emailFromOAuth);
-                setUserEmail(emailFromOAuth || ''); // Set empty string if no email
-                
-                // Always show email input to allow user to confirm/change it
-                console.log('Showing email confirmation screen');
-                setShowEmailInput(true);
-                setLoading(false);
-                return;
-              }
-            }
+          const successChallenge = mfaChallengeFromResponse(successData);
+          if (successChallenge) {
+            console.log('OAuth2 login requires a second factor');
+            setOauth2Email(successData.user?.email || successData.email || '');
+            setMfaChallenge(successChallenge);
+            setLoading(false);
+            return;
+          }
+
+          if (successData.token) {
+            console.log('OAuth2 login successful from success endpoint:', successData);
+            
+            // Store tokens temporarily (don't start the session yet)
+            setToken(successData.token);
+            setRefreshToken(successData.refreshToken || successData.refresh_token || '');
+            setOauth2Roles(rolesFromOAuth2Response(successData));
+            
+            // Get email from OAuth2 response
+            const emailFromOAuth = successData.user?.email || successData.email || '';
+            console.log('Email from OAuth2:', emailFromOAuth);
+            setOauth2Email(emailFromOAuth);
+            setUserEmail(emailFromOAuth || ''); // Set empty string if no email
+            
+            // Always show email input to allow user to confirm/change it
+            console.log('Showing email confirmation screen');
+            setShowEmailInput(true);
+            setLoading(false);
+            return;
           }
         } catch (err) {
           console.warn('Could not fetch from success endpoint, trying other methods:', err);
@@ -146,6 +173,16 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
           throw new Error(errorDescription);
         }
 
+        // Backend redirect asking for a second factor (?mfa_required=true&mfa_token=...)
+        const urlChallenge = mfaChallengeFromResponse(Object.fromEntries(searchParams.entries()));
+        if (urlChallenge) {
+          console.log('OAuth2 login requires a second factor');
+          setOauth2Email(emailFromUrl || '');
+          setMfaChallenge(urlChallenge);
+          setLoading(false);
+          return;
+        }
+
         // If token is directly in URL (from backend success redirect)
         // Check if token exists and is not empty
         if (tokenFromUrl && tokenFromUrl.trim() !== '') {
@@ -158,6 +195,8 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
           const email = emailFromUrl || '';
           setOauth2Email(email);
           setUserEmail(email);
+          // No roles here: the query string is user-controlled, so they come from the
+          // token's claims or /api/users/me once the session starts
           
           // Always show email input to allow user to confirm/change it
           console.log('Showing email confirmation screen');
@@ -180,44 +219,32 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
           console.log('OAuth2Callback: Exchanging code for token. Redirect URI:', redirectUri);
 
           // Exchange code for token using backend callback endpoint
-          const response = await fetch(getApiUrl('/api/oauth2/callback'), {
+          const data = await apiRequest<OAuth2TokenResponse>('/api/oauth2/callback', {
             method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-            },
-            body: JSON.stringify({
+            auth: false,
+            body: {
               code,
               state,
               provider,
               redirect_uri: redirectUri,
-            }),
+            },
           });
+          console.log('OAuth2 login successful:', data);
 
-          if (!response.ok) {
-            const contentType = response.headers.get('content-type');
-            let errorData;
-            if (contentType && contentType.includes('application/json')) {
-              errorData = await response.json().catch(() => ({ message: 'OAuth2 callback failed' }));
-            } else {
-              const text = await response.text();
-              errorData = { message: `Server error (${response.status}): ${text.substring(0, 100)}` };
-            }
-            throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-          }
-
-          const contentType = response.headers.get('content-type');
-          if (!contentType || !contentType.includes('application/json')) {
-            const text = await response.text();
-            throw new Error(`Expected JSON but got: ${contentType}. Response: ${text.substring(0, 100)}`);
+          const codeChallenge = mfaChallengeFromResponse(data);
+          if (codeChallenge) {
+            console.log('OAuth2 login requires a second factor');
+            setOauth2Email(data.user?.email || data.email || '');
+            setMfaChallenge(codeChallenge);
+            setLoading(false);
+            return;
           }
 
-          const data = await response.json();
-          console.log('OAuth2 login successful:', data);
-
           // Store token temporarily (don't store in localStorage yet)
           if (data.token && data.token.trim() !== '') {
             setToken(data.token);
+            setRefreshToken(data.refreshToken || data.refresh_token || '');
+            setOauth2Roles(rolesFromOAuth2Response(data));
           } else {
             console.error('Token received from callback endpoint is missing or empty:', data);
             throw new Error('OAuth2 authentication succeeded but token is missing. Please try again.');
@@ -253,14 +280,15 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
         
         throw new Error('Authorization code or token not found. OAuth2 authentication may have failed. Please try logging in again.');
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'OAuth2 authentication failed';
+        const errorMessage = messageFromError(err, 'OAuth2 authentication failed');
         setError(errorMessage);
         console.error('OAuth2 callback error:', err);
         
         // Clear session storage
-        sessionStorage.removeItem('oauth2_redirect_after_login');
+        sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
         sessionStorage.removeItem('oauth2_provider');
         sessionStorage.removeItem('oauth2_frontend_origin');
+        sessionStorage.removeItem(OAUTH2_REMEMBER_ME_STORAGE_KEY);
         
         // Redirect to login page after a short delay
         setTimeout(() => {
@@ -311,6 +339,43 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
     );
   }
 
+  // Second factor before the email confirmation step
+  if (mfaChallenge) {
+    const handleMfaVerified = (result: OAuth2TokenResponse) => {
+      if (!result.token || result.token.trim() === '') {
+        navigate('/login', {
+          state: { oauth2Error: 'Two-factor verification succeeded but token is missing. Please try again.' },
+        });
+        return;
+      }
+      const email = result.user?.email || result.email || oauth2Email;
+      setToken(result.token);
+      setRefreshToken(result.refreshToken || result.refresh_token || '');
+      setOauth2Roles(rolesFromOAuth2Response(result));
+      setOauth2Email(email);
+      setUserEmail(email);
+      setMfaChallenge(null);
+      setShowEmailInput(true);
+    };
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-6">
+          <MfaChallenge
+            challenge={mfaChallenge}
+            onVerified={handleMfaVerified}
+            onCancel={() => {
+              sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
+              sessionStorage.removeItem('oauth2_provider');
+              sessionStorage.removeItem(OAUTH2_REMEMBER_ME_STORAGE_KEY);
+              navigate('/login');
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
   // Email confirmation/input step
   if (showEmailInput) {
     console.log('Rendering email confirmation screen. OAuth2 email:', oauth2Email, 'User email:', userEmail, 'Token:', token ? 'present' : 'missing');
@@ -325,23 +390,30 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
 
       console.log('Submitting email:', userEmail.trim());
 
-      // Store token and email
-      if (token) {
-        localStorage.setItem('token', token);
-      }
-      localStorage.setItem('userEmail', userEmail.trim());
-
-      // Call success callback if provided (this sets isAuthenticated to true)
+      // Start the session with the OAuth2 token and confirmed email
+      login({
+        token,
+        refreshToken,
+        email: userEmail.trim(),
+        roles: oauth2Roles,
+        // Remembered so logout can end the provider session too
+        authProvider: sessionStorage.getItem('oauth2_provider') || 'oauth2',
+        remember: sessionStorage.getItem(OAUTH2_REMEMBER_ME_STORAGE_KEY) !== 'false',
+      });
+
+      // Call success callback if provided
       if (onLoginSuccess) {
         onLoginSuccess();
       }
 
-      // Clear session storage
-      sessionStorage.removeItem('oauth2_redirect_after_login');
+      // Page the user started from (validated), then clear session storage
+      const returnTo = sanitizeReturnTo(sessionStorage.getItem(OAUTH2_RETURN_TO_STORAGE_KEY)) ?? '/';
+      sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
       sessionStorage.removeItem('oauth2_provider');
+      sessionStorage.removeItem(OAUTH2_REMEMBER_ME_STORAGE_KEY);
 
-      // Navigate to home page (same as regular login)
-      navigate('/');
+      // Navigate back to where the user was going (same as regular login)
+      navigate(returnTo);
     };
 
     return (
@@ -410,7 +482,8 @@ const OAuth2Callback = ({ onLoginSuccess }: OAuth2CallbackProps) => {
               <button
                 type="button"
                 onClick={() => {
-                  sessionStorage.removeItem('oauth2_redirect_after_login');
+                  sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
+                  sessionStorage.removeItem(OAUTH2_REMEMBER_ME_STORAGE_KEY);
                   sessionStorage.removeItem('oauth2_provider');
                   navigate('/login');
                 }}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { errorMessage } from '../../utils/apiClient';
+import {
+  deletePasskey,
+  isWebAuthnSupported,
+  listPasskeys,
+  passkeyErrorMessage,
+  registerPasskey,
+  renamePasskey,
+  type Passkey,
+} from '../../utils/webauthn';
+
+const formatDate = (value: string | null) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toLocaleDateString();
+};
+
+/** Placeholder name for a new passkey; the user is asked to rename it right after adding */
+const defaultPasskeyName = () => `Passkey ${new Date().toLocaleDateString()}`;
+
+const inputClass =
+  'px-2.5 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent';
+
+const PasskeySettings = () => {
+  const supported = isWebAuthnSupported();
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [loading, setLoading] = useState<boolean>(supported);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [adding, setAdding] = useState<boolean>(false);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!supported) {
+      return;
+    }
+    let cancelled = false;
+    listPasskeys()
+      .then((list) => {
+        if (!cancelled) setPasskeys(list);
+      })
+      .catch((err: unknown) => {
+        console.error('Error loading passkeys:', err);
+        if (!cancelled) setError(errorMessage(err, 'Could not load your passkeys'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [supported]);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    setError(null);
+    try {
+      const passkey = await registerPasskey(defaultPasskeyName());
+      setPasskeys((prev) => [...prev, passkey]);
+      // Let the user name it right away
+      setEditing({ id: passkey.id, name: passkey.name });
+    } catch (err) {
+      setError(passkeyErrorMessage(err, 'Could not add a passkey'));
+      console.error('Passkey registration error:', err);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRename = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (!name) {
+      setError('Please enter a name for the passkey');
+      return;
+    }
+    setBusyId(editing.id);
+    setError(null);
+    try {
+      await renamePasskey(editing.id, name);
+      setPasskeys((prev) => prev.map((p) => (p.id === editing.id ? { ...p, name } : p)));
+      setEditing(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Could not rename the passkey'));
+      console.error('Passkey rename error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (passkey: Passkey) => {
+    if (!window.confirm(`Remove "${passkey.name}"? You won't be able to sign in with it anymore.`)) {
+      return;
+    }
+    setBusyId(passkey.id);
+    setError(null);
+    try {
+      await deletePasskey(passkey.id);
+      setPasskeys((prev) => prev.filter((p) => p.id !== passkey.id));
+    } catch (err) {
+      setError(errorMessage(err, 'Could not remove the passkey'));
+      console.error('Passkey delete error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-6">
+      <h3 className="text-base font-semibold text-gray-900">Passkeys</h3>
+      <p className="mt-1 text-sm text-gray-700">
+        Sign in with your fingerprint, face or device PIN instead of a password.
+      </p>
+
+      {!supported ? (
+        <p className="mt-3 text-sm text-gray-500">This browser doesn&apos;t support passkeys.</p>
+      ) : (
+        <>
+          {error && (
+            <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-800 font-medium wrap-break-word">Error: {error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="mt-3 flex items-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+              <span className="ml-3 text-sm text-gray-600">Loading passkeys...</span>
+            </div>
+          ) : (
+            <ul className="mt-3 divide-y divide-gray-100">
+              {passkeys.length === 0 && <li className="py-2 text-sm text-gray-500">No passkeys yet.</li>}
+              {passkeys.map((passkey) => (
+                <li key={passkey.id} className="py-2 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  {editing?.id === passkey.id ? (
+                    <form onSubmit={handleRename} className="flex flex-1 gap-2">
+                      <label htmlFor={`passkey-name-${passkey.id}`} className="sr-only">
+                        Passkey name
+                      </label>
+                      <input
+                        id={`passkey-name-${passkey.id}`}
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: passkey.id, name: e.target.value })}
+                        maxLength={64}
+                        autoFocus
+                        className={`${inputClass} flex-1`}
+                      />
+                      <button
+                        type="submit"
+                        disabled={busyId === passkey.id}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{passkey.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(passkey.createdAt) ? `Added ${formatDate(passkey.createdAt)}` : 'Added'}
+                          {formatDate(passkey.lastUsedAt) ? ` · Last used ${formatDate(passkey.lastUsedAt)}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex gap-3 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => setEditing({ id: passkey.id, name: passkey.name })}
+                          disabled={busyId !== null}
+                          className="text-sm font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(passkey)}
+                          disabled={busyId !== null}
+                          className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                        >
+                          {busyId === passkey.id ? 'Removing...' : 'Remove'}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={adding || loading}
+            className="mt-3 bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {adding ? 'Waiting for your device...' : 'Add a passkey'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PasskeySettings;
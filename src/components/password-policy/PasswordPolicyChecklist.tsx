@@ -0,0 +1,70 @@
+import {
+  checkPassword,
+  passwordStrength,
+  type PasswordContext,
+  type PasswordPolicy,
+} from '../../utils/passwordPolicy';
+
+interface PasswordPolicyChecklistProps {
+  password: string;
+  policy: PasswordPolicy;
+  /** Name/email the password must not contain */
+  context?: PasswordContext;
+}
+
+const METER_COLORS = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-emerald-600'];
+
+const PasswordPolicyChecklist = ({ password, policy, context }: PasswordPolicyChecklistProps) => {
+  const requirements = checkPassword(password, policy, context);
+  const strength = passwordStrength(password);
+
+  return (
+    <div className="mt-1" aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div
+          className="flex flex-1 gap-0.5"
+          role="meter"
+          aria-label="Password strength"
+          aria-valuemin={0}
+          aria-valuemax={4}
+          aria-valuenow={strength.score}
+          aria-valuetext={strength.label}
+        >
+          {[1, 2, 3, 4].map((step) => (
+            <div
+              key={step}
+              className={`h-1 flex-1 rounded-full ${
+                password && strength.score >= step ? METER_COLORS[strength.score] : 'bg-gray-200'
+              }`}
+            />
+          ))}
+        </div>
+        <span className="w-16 text-right text-[10px] text-gray-600">{password ? strength.label : ''}</span>
+      </div>
+      <ul className="mt-1 grid grid-cols-1 gap-x-3 gap-y-0.5 sm:grid-cols-2">
+        {requirements.map((requirement) => (
+          <li
+            key={requirement.id}
+            className={`flex items-center gap-1 text-[11px] leading-snug ${
+              requirement.met === true
+                ? 'text-emerald-700'
+                : requirement.met === false && password
+                  ? 'text-gray-700'
+                  : 'text-gray-500'
+            }`}
+          >
+            <span aria-hidden="true">{requirement.met === true ? '✓' : requirement.met === null ? 'ℹ' : '○'}</span>
+            <span>
+              {requirement.label}
+              {requirement.met !== null && (
+                <span className="sr-only">{requirement.met ? ' (met)' : ' (not met)'}</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordPolicyChecklist;
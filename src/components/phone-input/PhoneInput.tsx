@@ -0,0 +1,91 @@
+import type { FocusEvent } from 'react';
+import {
+  formatPhoneAsYouType,
+  phoneCountries,
+  phoneCountryOf,
+  type CountryCode,
+} from '../../utils/phone';
+
+interface PhoneInputProps {
+  id: string;
+  name: string;
+  /** Number as displayed (formatted while typing); normalize with normalizePhone before sending */
+  value: string;
+  country: CountryCode;
+  onChange: (value: string) => void;
+  onCountryChange: (country: CountryCode) => void;
+  onBlur?: (e: FocusEvent<HTMLInputElement>) => void;
+  required?: boolean;
+  disabled?: boolean;
+  placeholder?: string;
+  /** Applied to both the country select and the number input */
+  className?: string;
+  'aria-invalid'?: boolean;
+  'aria-describedby'?: string;
+}
+
+const PhoneInput = ({
+  id,
+  name,
+  value,
+  country,
+  onChange,
+  onCountryChange,
+  onBlur,
+  required,
+  disabled,
+  placeholder = 'Phone number',
+  className = '',
+  ...aria
+}: PhoneInputProps) => {
+  const handleInput = (input: string) => {
+    // Deleting a formatting character would otherwise be re-added immediately
+    const deleting = input.length < value.length;
+    onChange(deleting ? input : formatPhoneAsYouType(input, country));
+    // "+44 ..." picks the country for the user
+    const typedCountry = phoneCountryOf(input);
+    if (typedCountry && typedCountry !== country) {
+      onCountryChange(typedCountry);
+    }
+  };
+
+  return (
+    <div className="flex gap-1.5">
+      <label htmlFor={`${id}-country`} className="sr-only">
+        Country
+      </label>
+      <select
+        id={`${id}-country`}
+        name={`${name}Country`}
+        value={country}
+        onChange={(e) => onCountryChange(e.target.value as CountryCode)}
+        disabled={disabled}
+        autoComplete="tel-country-code"
+        className={`${className} max-w-28 shrink-0 pr-1`}
+      >
+        {phoneCountries().map((c) => (
+          <option key={c.code} value={c.code}>
+            {c.name} (+{c.callingCode})
+          </option>
+        ))}
+      </select>
+      <input
+        type="tel"
+        id={id}
+        name={name}
+        value={value}
+        onChange={(e) => handleInput(e.target.value)}
+        onBlur={onBlur}
+        required={required}
+        disabled={disabled}
+        autoComplete="tel-national"
+        inputMode="tel"
+        className={`${className} min-w-0 flex-1`}
+        placeholder={placeholder}
+        {...aria}
+      />
+    </div>
+  );
+};
+
+export default PhoneInput;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import config from '../../config';
+import { ApiError, errorMessage } from '../../utils/apiClient';
+import { confirmPhoneCode, sendPhoneCode, type PhoneOwner } from '../../utils/phoneVerification';
+import { formatCountdown } from '../../utils/rateLimit';
+import { useCountdown } from '../../utils/useCountdown';
+import CodeInput from '../code-input/CodeInput';
+
+interface PhoneVerificationProps {
+  owner: PhoneOwner;
+  /** Number the code goes to, as shown to the user */
+  phone: string;
+  onVerified: () => void;
+  onCancel?: () => void;
+}
+
+const inputClass =
+  'w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-100';
+
+const PhoneVerification = ({ owner, phone, onVerified, onCancel }: PhoneVerificationProps) => {
+  const { codeLength, resendCooldownSeconds } = config.phoneVerification;
+  const [sent, setSent] = useState<boolean>(false);
+  const [code, setCode] = useState<string>('');
+  const [sending, setSending] = useState<boolean>(false);
+  const [verifying, setVerifying] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { secondsLeft, start } = useCountdown();
+
+  const handleSend = async () => {
+    setSending(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const result = await sendPhoneCode(owner);
+      setSent(true);
+      setCode('');
+      setMessage(result.message);
+      start(result.resendAfterSeconds ?? resendCooldownSeconds);
+    } catch (err) {
+      console.error('Phone code request error:', err);
+      setError(errorMessage(err, 'Could not send a verification code'));
+      // Throttled by the backend: wait as long as it asks
+      if (err instanceof ApiError && err.status === 429) {
+        start(err.retryAfterSeconds ?? resendCooldownSeconds);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleVerify = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (code.length !== codeLength) {
+      setError(`Enter the ${codeLength}-digit code we texted you`);
+      return;
+    }
+    setVerifying(true);
+    setError(null);
+    try {
+      await confirmPhoneCode(owner, code);
+      onVerified();
+    } catch (err) {
+      console.error('Phone verification error:', err);
+      setError(errorMessage(err, 'That code is not valid. Check it or request a new one.'));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div>
+      {message && (
+        <div className="bg-emerald-50 border border-emerald-200 rounded-md p-2 mb-2">
+          <p className="text-xs text-emerald-900 wrap-break-word leading-snug">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-2 mb-2">
+          <p className="text-xs text-red-800 font-medium wrap-break-word leading-snug">Error: {error}</p>
+        </div>
+      )}
+
+      {!sent ? (
+        <>
+          <p className="text-xs text-gray-700 mb-2">
+            We&apos;ll text a {codeLength}-digit code to <span className="font-medium">{phone}</span>.
+          </p>
+          <button
+            type="button"
+            onClick={handleSend}
+            disabled={sending || secondsLeft > 0}
+            className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {sending ? 'Sending...' : secondsLeft > 0 ? `Try again in ${formatCountdown(secondsLeft)}` : 'Text me a code'}
+          </button>
+        </>
+      ) : (
+        <form onSubmit={handleVerify} noValidate className="space-y-2">
+          <div>
+            <label htmlFor="phoneCode" className="block text-xs font-medium text-gray-700 mb-0.5">
+              Code sent to {phone}
+            </label>
+            <CodeInput
+              id="phoneCode"
+              value={code}
+              onChange={(value) => {
+                setCode(value);
+                setError(null);
+              }}
+              length={codeLength}
+              disabled={verifying}
+              autoFocus
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={verifying || code.length !== codeLength}
+            className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {verifying ? 'Verifying...' : 'Verify'}
+          </button>
+          <button
+            type="button"
+            onClick={handleSend}
+            disabled={sending || secondsLeft > 0}
+            className="w-full text-[11px] font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+          >
+            {sending
+              ? 'Sending...'
+              : secondsLeft > 0
+                ? `Send a new code in ${formatCountdown(secondsLeft)}`
+                : 'Send a new code'}
+          </button>
+        </form>
+      )}
+
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-2 w-full text-[11px] font-medium text-gray-600 hover:text-gray-900"
+        >
+          Not now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PhoneVerification;
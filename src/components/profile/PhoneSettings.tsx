@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { errorMessage } from '../../utils/apiClient';
+import {
+  defaultPhoneCountry,
+  formatStoredPhone,
+  normalizePhone,
+  parseStoredPhone,
+  type CountryCode,
+} from '../../utils/phone';
+import { fetchProfilePhone, updateProfilePhone, type ProfilePhone } from '../../utils/profile';
+import PhoneInput from '../phone-input/PhoneInput';
+import PhoneVerification from '../phone-verification/PhoneVerification';
+
+const inputClass =
+  'px-2.5 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent';
+
+const PhoneSettings = () => {
+  const [saved, setSaved] = useState<ProfilePhone>({ number: '', verified: false });
+  const [phone, setPhone] = useState<string>('');
+  const [country, setCountry] = useState<CountryCode>(defaultPhoneCountry);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState<boolean>(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchProfilePhone(controller.signal)
+      .then((stored) => {
+        const parsed = parseStoredPhone(stored.number, defaultPhoneCountry());
+        setSaved(stored);
+        setPhone(parsed.national);
+        setCountry(parsed.country);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading phone number:', err);
+        setError(errorMessage(err, 'Could not load your phone number'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const normalized = normalizePhone(phone, country);
+    if (!normalized) {
+      setError('Enter a valid phone number');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await updateProfilePhone(normalized);
+      setSaved({ number: normalized, verified: false });
+      setPhone(parseStoredPhone(normalized, country).national);
+      setMessage('Phone number updated. Verify it to confirm it is yours.');
+    } catch (err) {
+      setError(errorMessage(err, 'Could not update your phone number'));
+      console.error('Phone update error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unchanged = normalizePhone(phone, country) === saved.number;
+
+  const handleVerified = () => {
+    setSaved((prev) => ({ ...prev, verified: true }));
+    setVerifying(false);
+    setMessage('Phone number verified.');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-6">
+      <div className="flex items-center gap-2">
+        <h3 className="text-base font-semibold text-gray-900">Phone number</h3>
+        {!loading && saved.number && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+              saved.verified ? 'bg-emerald-100 text-emerald-800' : 'bg-amber-100 text-amber-800'
+            }`}
+          >
+            {saved.verified ? 'Verified' : 'Not verified'}
+          </span>
+        )}
+      </div>
+      <p className="mt-1 text-sm text-gray-700">Used to reach you about your account.</p>
+
+      {error && (
+        <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3">
+          <p className="text-sm text-red-800 font-medium wrap-break-word">Error: {error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="mt-3 bg-emerald-50 border border-emerald-200 rounded-md p-3">
+          <p className="text-sm text-emerald-800 font-medium">{message}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="mt-3 flex items-center">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+          <span className="ml-3 text-sm text-gray-600">Loading phone number...</span>
+        </div>
+      ) : verifying ? (
+        <div className="mt-3 max-w-sm">
+          <PhoneVerification
+            owner={null}
+            phone={formatStoredPhone(saved.number)}
+            onVerified={handleVerified}
+            onCancel={() => setVerifying(false)}
+          />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} noValidate className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center">
+          <label htmlFor="profile-phone" className="sr-only">
+            Phone number
+          </label>
+          <div className="flex-1">
+            <PhoneInput
+              id="profile-phone"
+              name="phone"
+              value={phone}
+              country={country}
+              onChange={(value) => {
+                setPhone(value);
+                setMessage(null);
+              }}
+              onCountryChange={setCountry}
+              disabled={saving}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || unchanged}
+            className="bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          {saved.number && !saved.verified && unchanged && (
+            <button
+              type="button"
+              onClick={() => {
+                setVerifying(true);
+                setMessage(null);
+                setError(null);
+              }}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              Verify
+            </button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PhoneSettings;
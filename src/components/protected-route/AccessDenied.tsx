@@ -0,0 +1,27 @@
+import { Link } from 'react-router-dom';
+
+const AccessDenied = () => {
+  return (
+    <div className="min-h-[calc(100dvh-2.5rem)] bg-gray-50 py-8 px-4 flex flex-col justify-center">
+      <div className="max-w-md mx-auto w-full bg-white rounded-lg shadow-md border border-gray-200/80 p-6 text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
+          <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+            />
+          </svg>
+        </div>
+        <h1 className="mt-4 text-xl font-semibold text-gray-900">Access denied</h1>
+        <p className="mt-2 text-sm text-gray-600">You don&apos;t have permission to view this page.</p>
+        <Link to="/" className="mt-4 inline-block text-sm font-medium text-indigo-600 hover:text-indigo-500">
+          Back to main page
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
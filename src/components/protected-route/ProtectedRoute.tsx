@@ -0,0 +1,26 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useSession } from '../../session/useSession';
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+}
+
+/** Location state handed to /login so it can send the user back afterwards */
+export interface LoginRedirectState {
+  from?: string;
+}
+
+const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+  const { isAuthenticated } = useSession();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    const state: LoginRedirectState = { from: `${location.pathname}${location.search}` };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
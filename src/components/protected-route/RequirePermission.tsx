@@ -0,0 +1,23 @@
+import type { ReactNode } from 'react';
+import ProtectedRoute from './ProtectedRoute';
+import AccessDenied from './AccessDenied';
+import { useSession } from '../../session/useSession';
+import { hasPermission } from '../../session/permissions';
+
+interface RequirePermissionProps {
+  /** Access is granted only if the user holds all of these permissions */
+  permissions: string | string[];
+  children: ReactNode;
+  /** Rendered instead of the default access-denied page */
+  fallback?: ReactNode;
+}
+
+const RequirePermission = ({ permissions, children, fallback }: RequirePermissionProps) => {
+  const session = useSession();
+  const required = Array.isArray(permissions) ? permissions : [permissions];
+  const allowed = required.every((permission) => hasPermission(session.permissions, permission));
+
+  return <ProtectedRoute>{allowed ? children : (fallback ?? <AccessDenied />)}</ProtectedRoute>;
+};
+
+export default RequirePermission;
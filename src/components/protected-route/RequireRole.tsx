@@ -0,0 +1,23 @@
+import type { ReactNode } from 'react';
+import ProtectedRoute from './ProtectedRoute';
+import AccessDenied from './AccessDenied';
+import { useSession } from '../../session/useSession';
+import { hasRole } from '../../session/permissions';
+
+interface RequireRoleProps {
+  /** Access is granted if the user has any of these roles */
+  roles: string | string[];
+  children: ReactNode;
+  /** Rendered instead of the default access-denied page */
+  fallback?: ReactNode;
+}
+
+const RequireRole = ({ roles, children, fallback }: RequireRoleProps) => {
+  const session = useSession();
+  const required = Array.isArray(roles) ? roles : [roles];
+  const allowed = required.some((role) => hasRole(session.roles, role));
+
+  return <ProtectedRoute>{allowed ? children : (fallback ?? <AccessDenied />)}</ProtectedRoute>;
+};
+
+export default RequireRole;
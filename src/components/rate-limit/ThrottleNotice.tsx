@@ -0,0 +1,29 @@
+import type { ReactNode } from 'react';
+import { formatCountdown, type Throttle } from '../../utils/rateLimit';
+
+interface ThrottleNoticeProps {
+  throttle: Throttle;
+  secondsLeft: number;
+  /** Extra actions, e.g. the unlock email button on the login page */
+  children?: ReactNode;
+}
+
+const ThrottleNotice = ({ throttle, secondsLeft, children }: ThrottleNoticeProps) => {
+  return (
+    <div role="alert" className="bg-amber-50 border border-amber-200 rounded-md p-2 mb-2">
+      <p className="text-xs text-amber-900 font-medium wrap-break-word leading-snug">{throttle.message}</p>
+      <p className="mt-0.5 text-[11px] text-amber-800 leading-snug">
+        {secondsLeft > 0 ? (
+          <>
+            You can try again in <span className="font-mono tabular-nums">{formatCountdown(secondsLeft)}</span>.
+          </>
+        ) : (
+          'Please try again later.'
+        )}
+      </p>
+      {children}
+    </div>
+  );
+};
+
+export default ThrottleNotice;
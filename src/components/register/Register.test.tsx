@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import Register from './Register';
+import { fetchJsonResponse } from '../../test/responses';
+
+describe('Register Component', () => {
+  beforeEach(() => {
+    // Password policy, legal documents and availability lookups all hit fetch on mount
+    globalThis.fetch = vi.fn<typeof fetch>(async (input) => {
+      const url = String(input);
+      if (url.includes('/api/auth/consent/documents')) {
+        return fetchJsonResponse(200, { documents: [{ type: 'terms', version: '2026-09', url: 'https://example.com/terms' }] });
+      }
+      if (url.includes('/api/auth/email-available')) {
+        return fetchJsonResponse(200, { available: true });
+      }
+      return fetchJsonResponse(200, {});
+    });
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderRegister = () =>
+    render(
+      <MemoryRouter initialEntries={['/register']}>
+        <Register />
+      </MemoryRouter>
+    );
+
+  it('should not leave a step until its fields are valid', async () => {
+    const user = userEvent.setup();
+    renderRegister();
+
+    await user.type(screen.getByLabelText('Email'), 'not-an-email');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+
+    expect(screen.getByText('Enter a valid email address')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Account' })).toBeInTheDocument();
+
+    await user.clear(screen.getByLabelText('Email'));
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+
+    expect(screen.getByRole('heading', { name: 'Profile' })).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Back' }));
+    expect(screen.getByLabelText('Email')).toHaveValue('jane@example.com');
+  });
+
+  it('should restore a draft after a reload, without the passwords', async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderRegister();
+
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    await user.type(screen.getByLabelText('First name'), 'Jane');
+    await user.type(screen.getByLabelText('Last name'), 'Doe');
+    await user.type(screen.getByLabelText('Phone'), '2015550123');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    await user.type(screen.getByLabelText('Password'), 'Tr1cky!Horse');
+
+    expect(sessionStorage.getItem('registerDraft')).not.toContain('Tr1cky!Horse');
+    unmount();
+    renderRegister();
+
+    expect(screen.getByRole('heading', { name: 'Security' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Password')).toHaveValue('');
+    await user.click(screen.getByRole('button', { name: 'Back' }));
+    expect(screen.getByLabelText('First name')).toHaveValue('Jane');
+  });
+
+  it('should not restore accepted terms from a draft', async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderRegister();
+
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    await user.type(screen.getByLabelText('First name'), 'Jane');
+    await user.type(screen.getByLabelText('Last name'), 'Doe');
+    await user.type(screen.getByLabelText('Phone'), '2015550123');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    await user.type(screen.getByLabelText('Password'), 'Tr1cky!Horse');
+    await user.type(screen.getByLabelText('Confirm password'), 'Tr1cky!Horse');
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    await user.click(await screen.findByRole('checkbox'));
+
+    expect(screen.getByRole('checkbox')).toBeChecked();
+    expect(sessionStorage.getItem('registerDraft')).not.toContain('acceptTerms');
+    unmount();
+    renderRegister();
+
+    expect(screen.getByRole('heading', { name: 'Review' })).toBeInTheDocument();
+    expect(screen.getByRole('checkbox')).not.toBeChecked();
+  });
+});
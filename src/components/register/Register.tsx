@@ -1,116 +1,169 @@
-import { useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
-import { getApiUrl } from '../../utils/api';
-import { messageFromApiErrorBody } from '../../utils/apiErrors';
+import { Link, useSearchParams } from 'react-router-dom';
+import config from '../../config';
+import { apiRequest } from '../../utils/apiClient';
 import { normalizeEmail } from '../../utils/email';
+import { verificationCodeExpiresIn } from '../../utils/emailVerification';
+import { useThrottle } from '../../utils/useThrottle';
+import ThrottleNotice from '../rate-limit/ThrottleNotice';
+import CaptchaChallenge from '../captcha/CaptchaChallenge';
+import { useCaptcha } from '../../utils/useCaptcha';
+import { useEmailAvailability } from '../../utils/useEmailAvailability';
+import type { Invitation } from '../../utils/invitation';
+import { useInvitation } from '../../utils/useInvitation';
+import { consentRecords } from '../../utils/consent';
+import { useLegalDocuments } from '../../utils/useLegalDocuments';
+import { useForm } from '../../utils/useForm';
+import { serverFormErrors, validateForm } from '../../utils/formValidation';
+import { usePasswordPolicy } from '../../utils/usePasswordPolicy';
+import { formatStoredPhone, normalizePhone, type CountryCode } from '../../utils/phone';
+import { phoneVerificationToken } from '../../utils/phoneVerification';
+import {
+  REGISTRATION_STEPS,
+  initialRegistrationValues,
+  isSecretField,
+  phoneCountryField,
+  registrationBody,
+  registrationSchema,
+  type RegistrationField,
+  type RegistrationValues,
+} from '../../utils/registrationSteps';
+import { clearRegistrationDraft, loadRegistrationDraft, saveRegistrationDraft } from '../../utils/registrationDraft';
+import FieldError from '../form/FieldError';
+import PasswordPolicyChecklist from '../password-policy/PasswordPolicyChecklist';
+import PhoneInput from '../phone-input/PhoneInput';
+import InvitationNotice from '../invitation/InvitationNotice';
+import LegalDocumentLinks from '../consent/LegalDocumentLinks';
+import Stepper from '../stepper/Stepper';
+import VerifyEmailCode from '../verify-email/VerifyEmailCode';
 
-interface RegisterFormData {
-  firstName: string;
-  lastName: string;
+/** Invited users start with the details the admin entered; these fields are locked */
+const invitationPrefill = (invitation: Invitation | null): RegistrationValues => {
+  if (!invitation) {
+    return {};
+  }
+  const prefill: RegistrationValues = { email: invitation.email };
+  if (invitation.firstName) prefill.firstName = invitation.firstName;
+  if (invitation.lastName) prefill.lastName = invitation.lastName;
+  return prefill;
+};
+
+/** Index of the first step holding one of the fields */
+const stepOfFields = (names: string[]) =>
+  Math.max(
+    0,
+    REGISTRATION_STEPS.findIndex((step) => step.fields.some((field) => names.includes(field.name)))
+  );
+
+const LAST_STEP = REGISTRATION_STEPS.length - 1;
+
+/** Kept for the success panel: verify the email (code or link), verify the phone */
+interface RegisteredAccount {
   email: string;
-  phone: string;
-  password: string;
-  confirmPassword?: string;
+  /** E.164 */
+  phone: string | null;
+  codeExpiresIn: number;
+  /** Lets the new user verify their phone before the first login */
+  phoneVerificationToken: string | null;
 }
 
-const Register = () => {
-  const [formData, setFormData] = useState<RegisterFormData>({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    password: '',
-  });
-
+const RegisterForm = ({ invitation }: { invitation: Invitation | null }) => {
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const passwordPolicy = usePasswordPolicy();
+  const schema = useMemo(() => registrationSchema(passwordPolicy), [passwordPolicy]);
+  const [prefill] = useState<RegistrationValues>(() => invitationPrefill(invitation));
+  // An accidental reload resumes where the user was (passwords are never in the draft)
+  const [draft] = useState(loadRegistrationDraft);
+  const [step, setStep] = useState<number>(() => Math.min(draft?.step ?? 0, LAST_STEP));
+  const [initialValues] = useState<RegistrationValues>(() =>
+    initialRegistrationValues({ ...draft?.values, ...prefill })
+  );
+  const form = useForm<RegistrationValues>({
+    initialValues,
+    schema,
+    onEdit: () => setError(null),
+  });
   const [success, setSuccess] = useState<boolean>(false);
+  const [registered, setRegistered] = useState<RegisteredAccount>({
+    email: '',
+    phone: null,
+    codeExpiresIn: 0,
+    phoneVerificationToken: null,
+  });
+  const { throttle, secondsLeft, isThrottled, handleThrottle } = useThrottle();
+  const captcha = useCaptcha('register');
+  const legalDocuments = useLegalDocuments();
+  // An invite fixes the address, so there is nothing to look up
+  const emailAvailability = useEmailAvailability(invitation ? '' : form.values.email);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
-    if (error) setError(null);
-  };
+  useEffect(() => {
+    if (!success) {
+      saveRegistrationDraft({ step, values: form.values });
+    }
+  }, [step, form.values, success]);
 
-  const handleEmailBlur = () => {
-    setFormData((prev) => ({
-      ...prev,
-      email: normalizeEmail(prev.email),
-    }));
+  const goTo = (index: number) => {
+    setError(null);
+    setStep(index);
   };
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    if (formData.password !== (formData.confirmPassword ?? '')) {
-      setError('Passwords do not match');
+    // Enter in a field, or "Next": the current step must be valid to move on
+    if (step < LAST_STEP) {
+      if (form.validate(REGISTRATION_STEPS[step].fields.map((field) => field.name))) {
+        goTo(step + 1);
+      }
       return;
     }
-
-    const first = formData.firstName.trim();
-    const last = formData.lastName.trim();
-    if (!first || !last) {
-      setError('Please enter your first name and last name');
+    if (!form.validate()) {
+      const invalid = Object.keys(validateForm(schema, form.values));
+      goTo(stepOfFields(invalid));
       return;
     }
-    const email = normalizeEmail(formData.email);
-    const phone = formData.phone.trim();
+    if (captcha.required && !captcha.token) {
+      setError('Please complete the challenge before registering');
+      return;
+    }
+    const body = registrationBody(form.values, consentRecords(legalDocuments));
 
     setLoading(true);
     setError(null);
-    setSuccess(false);
 
     try {
-      const response = await fetch(getApiUrl('/api/auth/register'), {
+      const data = await apiRequest<Record<string, unknown>>('/api/auth/register', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+        auth: false,
+        body: {
+          ...body,
+          ...(invitation ? { inviteToken: invitation.token } : {}),
+          ...captcha.fields,
         },
-        body: JSON.stringify({
-          firstName: first,
-          lastName: last,
-          email,
-          phone,
-          password: formData.password,
-          confirmPassword: formData.confirmPassword ?? '',
-        }),
       });
-
-      if (!response.ok) {
-        const contentType = response.headers.get('content-type');
-        let errorData: Record<string, unknown> = { message: 'Registration failed' };
-        if (contentType?.includes('application/json')) {
-          errorData = (await response.json().catch(() => errorData)) as Record<string, unknown>;
-        } else {
-          const text = await response.text();
-          errorData = { message: text ? `${text.slice(0, 200)} (${response.status})` : `HTTP ${response.status}` };
-        }
-        const detail = messageFromApiErrorBody(errorData);
-        const message =
-          detail ||
-          (typeof errorData.message === 'string' ? errorData.message : null) ||
-          `HTTP error! status: ${response.status}`;
-        console.error('Registration failed:', response.status, errorData);
-        throw new Error(message);
-      }
-
-      const data = await response.json();
+      captcha.recordSuccess();
+      clearRegistrationDraft();
+      setRegistered({
+        email: body.email as string,
+        phone: (body.phone as string | null) ?? null,
+        codeExpiresIn: verificationCodeExpiresIn(data),
+        phoneVerificationToken: phoneVerificationToken(data),
+      });
       setSuccess(true);
       console.log('Registration successful:', data);
-
-      setFormData({
-        firstName: '',
-        lastName: '',
-        email: '',
-        phone: '',
-        password: '',
-        confirmPassword: '',
-      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to register user');
+      if (captcha.recordFailure(err)) {
+        setError('Please complete the challenge and try again');
+      } else if (!handleThrottle(err)) {
+        setError(form.applyServerErrors(err, 'Failed to register user'));
+        // Take the user to the first field the backend complained about
+        const { errors } = serverFormErrors<RegistrationValues>(err, Object.keys(form.values), '');
+        if (Object.keys(errors).length > 0) {
+          setStep(stepOfFields(Object.keys(errors)));
+        }
+      }
       console.error('Registration error:', err);
     } finally {
       setLoading(false);
@@ -118,199 +171,314 @@ const Register = () => {
   };
 
   const inputClass =
-    'w-full rounded-md border border-gray-200 bg-white px-2.5 py-1.5 text-sm text-gray-900 shadow-sm transition-shadow placeholder:text-gray-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20';
+    'w-full rounded-md border border-gray-200 bg-white px-2.5 py-1.5 text-sm text-gray-900 shadow-sm transition-shadow placeholder:text-gray-400 read-only:bg-gray-50 read-only:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20';
+  const labelClass = 'mb-0.5 block text-xs font-medium text-gray-700';
+
+  const renderField = (field: RegistrationField) => {
+    const locked = field.name in prefill;
+    switch (field.kind) {
+      case 'phone':
+        return (
+          <PhoneInput
+            {...form.field(field.name)}
+            country={form.values[phoneCountryField(field.name)] as CountryCode}
+            onChange={(value) => form.setValue(field.name, value)}
+            onCountryChange={(country) => form.setValue(phoneCountryField(field.name), country)}
+            required={!field.optional}
+            className={inputClass}
+          />
+        );
+      case 'password':
+        return (
+          <>
+            <input
+              type="password"
+              {...form.field(field.name)}
+              required
+              minLength={passwordPolicy.minLength}
+              autoComplete={field.autoComplete}
+              className={inputClass}
+              placeholder={field.placeholder ?? `At least ${passwordPolicy.minLength} characters`}
+            />
+            <PasswordPolicyChecklist
+              password={form.values[field.name]}
+              policy={passwordPolicy}
+              context={{ email: form.values.email, firstName: form.values.firstName, lastName: form.values.lastName }}
+            />
+          </>
+        );
+      case 'consent':
+        return (
+          <label className="flex items-start gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              {...form.field(field.name)}
+              checked={form.values[field.name] === 'true'}
+              onChange={(e) => form.setValue(field.name, e.target.checked ? 'true' : '')}
+              required
+              className="mt-0.5 h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              I agree to{' '}
+              <LegalDocumentLinks
+                documents={legalDocuments}
+                className="font-medium text-indigo-600 underline hover:text-indigo-500"
+              />
+              .
+            </span>
+          </label>
+        );
+      default:
+        return (
+          <input
+            type={field.kind === 'email' ? 'email' : field.kind === 'confirm-password' ? 'password' : 'text'}
+            {...form.field(field.name)}
+            required={!field.optional}
+            readOnly={locked}
+            autoComplete={field.autoComplete}
+            className={inputClass}
+            placeholder={field.placeholder}
+          />
+        );
+    }
+  };
+
+  /** Entered value as shown on the review step */
+  const reviewValue = (field: RegistrationField) => {
+    const value = form.values[field.name] ?? '';
+    if (field.kind === 'phone') {
+      const normalized = normalizePhone(value, form.values[phoneCountryField(field.name)] as CountryCode);
+      return normalized ? formatStoredPhone(normalized) : value;
+    }
+    return value.trim();
+  };
+
+  const emailHint = emailAvailability === 'taken' && !form.errors.email && (
+    <p className="mt-0.5 text-xs text-amber-800">
+      This email is already registered —{' '}
+      <Link
+        to="/login"
+        state={{ email: normalizeEmail(form.values.email) }}
+        className="font-medium text-indigo-600 underline hover:text-indigo-500"
+      >
+        log in
+      </Link>{' '}
+      or{' '}
+      <Link
+        to="/forgot-password"
+        state={{ email: normalizeEmail(form.values.email) }}
+        className="font-medium text-indigo-600 underline hover:text-indigo-500"
+      >
+        reset your password
+      </Link>
+      .
+    </p>
+  );
+
+  const currentStep = REGISTRATION_STEPS[step];
 
   return (
-    <div className="h-[calc(100dvh-2.5rem)] overflow-hidden bg-linear-to-b from-slate-50 via-white to-indigo-50/40 px-4 py-2 flex flex-col justify-center">
+    <div className="min-h-[calc(100dvh-2.5rem)] bg-linear-to-b from-slate-50 via-white to-indigo-50/40 px-4 py-6 flex flex-col justify-center">
       <div className="max-w-md mx-auto w-full">
         <div className="rounded-xl bg-white p-4 shadow-lg shadow-indigo-950/5 ring-1 ring-gray-200/80">
           <p className="text-center text-[10px] leading-tight text-gray-500 sm:text-[11px]">
             Create your account — join us in a minute.
           </p>
 
-          <div className="mt-2 max-h-[calc(100dvh-2.5rem-3.25rem)] overflow-y-auto overscroll-contain [-webkit-overflow-scrolling:touch] pr-0.5">
-            {success && (
-              <div className="mb-3 rounded-lg border border-emerald-200 bg-emerald-50/90 p-3 shadow-sm">
-                <div className="flex gap-2">
-                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-emerald-100 text-emerald-600">
-                    <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                      <path
-                        fillRule="evenodd"
-                        d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
-                        clipRule="evenodd"
-                      />
-                    </svg>
-                  </div>
-                  <div className="min-w-0">
-                    <p className="text-sm font-medium text-emerald-900">You&apos;re registered</p>
-                    <p className="mt-0.5 text-xs text-emerald-800/90 leading-snug sm:text-sm">
-                      Check your email for the verification link, then you can log in.
-                    </p>
-                  </div>
+          {success ? (
+            <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50/90 p-3 shadow-sm">
+              <div className="flex gap-2">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-emerald-100 text-emerald-600">
+                  <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                    <path
+                      fillRule="evenodd"
+                      d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
+                      clipRule="evenodd"
+                    />
+                  </svg>
                 </div>
-              </div>
-            )}
-
-            {error && (
-              <div className="mb-2 rounded-md border border-red-200 bg-red-50/90 p-2.5 shadow-sm">
-                <div className="flex gap-2">
-                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-red-100 text-red-600">
-                    <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                      <path
-                        fillRule="evenodd"
-                        d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
-                        clipRule="evenodd"
-                      />
-                    </svg>
-                  </div>
-                  <p className="wrap-break-word text-xs font-medium text-red-900 leading-snug sm:text-sm">
-                    Error: {error}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-emerald-900">You&apos;re registered</p>
+                  <p className="mt-0.5 text-xs text-emerald-800/90 leading-snug sm:text-sm">
+                    Check your email for the verification link, then you can log in.
                   </p>
+                  {!config.emailVerification.codeEntry && (
+                    <p className="mt-1 text-xs text-emerald-800/90">
+                      Didn&apos;t get it?{' '}
+                      <Link
+                        to="/resend-verification"
+                        state={{ email: registered.email }}
+                        className="font-medium text-emerald-900 underline hover:text-emerald-700"
+                      >
+                        Resend verification email
+                      </Link>
+                    </p>
+                  )}
+                  {registered.phone && registered.phoneVerificationToken && (
+                    <p className="mt-1 text-xs text-emerald-800/90">
+                      <Link
+                        to="/verify-phone"
+                        state={{ phone: registered.phone, verificationToken: registered.phoneVerificationToken }}
+                        className="font-medium text-emerald-900 underline hover:text-emerald-700"
+                      >
+                        Verify your phone number
+                      </Link>{' '}
+                      (optional)
+                    </p>
+                  )}
                 </div>
               </div>
-            )}
+              {config.emailVerification.codeEntry && (
+                <div className="mt-3 border-t border-emerald-200 pt-3">
+                  <VerifyEmailCode email={registered.email} expiresInSeconds={registered.codeExpiresIn} />
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="mt-3">
+              <Stepper steps={REGISTRATION_STEPS.map((s) => s.title)} current={step} />
 
-            <form onSubmit={handleSubmit} className="flex flex-col gap-2">
-              <div>
-                <label htmlFor="firstName" className="mb-0.5 block text-xs font-medium text-gray-700">
-                  First name
-                </label>
-                <input
-                  type="text"
-                  id="firstName"
-                  name="firstName"
-                  value={formData.firstName}
-                  onChange={handleChange}
-                  required
-                  autoComplete="given-name"
-                  className={inputClass}
-                  placeholder="Jane"
-                />
-              </div>
+              <div className="mt-3">
+                {throttle && <ThrottleNotice throttle={throttle} secondsLeft={secondsLeft} />}
 
-              <div>
-                <label htmlFor="lastName" className="mb-0.5 block text-xs font-medium text-gray-700">
-                  Last name
-                </label>
-                <input
-                  type="text"
-                  id="lastName"
-                  name="lastName"
-                  value={formData.lastName}
-                  onChange={handleChange}
-                  required
-                  autoComplete="family-name"
-                  className={inputClass}
-                  placeholder="Doe"
-                />
-              </div>
+                {error && (
+                  <div className="mb-2 rounded-md border border-red-200 bg-red-50/90 p-2.5 shadow-sm">
+                    <div className="flex gap-2">
+                      <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-red-100 text-red-600">
+                        <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                          <path
+                            fillRule="evenodd"
+                            d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+                            clipRule="evenodd"
+                          />
+                        </svg>
+                      </div>
+                      <p className="wrap-break-word text-xs font-medium text-red-900 leading-snug sm:text-sm">
+                        Error: {error}
+                      </p>
+                    </div>
+                  </div>
+                )}
 
-              <div>
-                <label htmlFor="email" className="mb-0.5 block text-xs font-medium text-gray-700">
-                  Email
-                </label>
-                <input
-                  type="email"
-                  id="email"
-                  name="email"
-                  value={formData.email}
-                  onChange={handleChange}
-                  onBlur={handleEmailBlur}
-                  required
-                  autoComplete="email"
-                  className={inputClass}
-                  placeholder="you@example.com"
-                />
-              </div>
+                {invitation && step === 0 && (
+                  <div className="mb-2 rounded-md border border-indigo-200 bg-indigo-50/90 p-2.5 shadow-sm">
+                    <p className="text-xs text-indigo-900 leading-snug sm:text-sm">
+                      You&apos;ve been invited{invitation.role ? ` as ${invitation.role}` : ''}. Your email address
+                      comes from the invitation.
+                    </p>
+                  </div>
+                )}
 
-              <div>
-                <label htmlFor="phone" className="mb-0.5 block text-xs font-medium text-gray-700">
-                  Phone
-                </label>
-                <input
-                  type="tel"
-                  id="phone"
-                  name="phone"
-                  value={formData.phone}
-                  onChange={handleChange}
-                  required
-                  autoComplete="tel"
-                  inputMode="tel"
-                  className={inputClass}
-                  placeholder="+1 (555) 123-4567"
-                />
-              </div>
+                <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-2">
+                  <h2 className="text-sm font-semibold text-gray-900">{currentStep.title}</h2>
 
-              <div>
-                <label htmlFor="password" className="mb-0.5 block text-xs font-medium text-gray-700">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  id="password"
-                  name="password"
-                  value={formData.password}
-                  onChange={handleChange}
-                  required
-                  minLength={6}
-                  autoComplete="new-password"
-                  className={inputClass}
-                  placeholder="At least 6 characters"
-                />
-              </div>
+                  {step === LAST_STEP && (
+                    <div className="flex flex-col gap-2">
+                      {REGISTRATION_STEPS.slice(0, LAST_STEP).map((reviewStep, index) => (
+                        <section key={reviewStep.id} className="rounded-md border border-gray-200 p-2.5">
+                          <div className="flex items-center justify-between">
+                            <h3 className="text-xs font-semibold text-gray-700">{reviewStep.title}</h3>
+                            <button
+                              type="button"
+                              onClick={() => goTo(index)}
+                              className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+                            >
+                              Edit<span className="sr-only"> {reviewStep.title.toLowerCase()}</span>
+                            </button>
+                          </div>
+                          <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                            {reviewStep.fields.map((field) => (
+                              <Fragment key={field.name}>
+                                <dt className="text-gray-500">{field.label}</dt>
+                                <dd className="truncate text-gray-900">
+                                  {isSecretField(field)
+                                    ? form.values[field.name] && '••••••••'
+                                    : reviewValue(field) || '—'}
+                                </dd>
+                              </Fragment>
+                            ))}
+                          </dl>
+                        </section>
+                      ))}
+                    </div>
+                  )}
 
-              <div>
-                <label htmlFor="confirmPassword" className="mb-0.5 block text-xs font-medium text-gray-700">
-                  Confirm password
-                </label>
-                <input
-                  type="password"
-                  id="confirmPassword"
-                  name="confirmPassword"
-                  value={formData.confirmPassword ?? ''}
-                  onChange={handleChange}
-                  required
-                  minLength={6}
-                  autoComplete="new-password"
-                  className={inputClass}
-                  placeholder="Re-enter your password"
-                />
-              </div>
+                  {currentStep.fields.map((field) => (
+                    <div key={field.name}>
+                      {field.kind !== 'consent' && (
+                        <label htmlFor={field.name} className={labelClass}>
+                          {field.label}
+                        </label>
+                      )}
+                      {renderField(field)}
+                      <FieldError inputId={field.name} message={form.errors[field.name]} />
+                      {field.kind === 'email' && <div aria-live="polite">{emailHint}</div>}
+                    </div>
+                  ))}
 
-              <div className="pt-0">
-                <button
-                  type="submit"
-                  disabled={loading}
-                  className="w-full rounded-md bg-indigo-600 py-2 text-sm font-semibold text-white shadow-md shadow-indigo-600/20 transition hover:bg-indigo-700 hover:shadow-lg hover:shadow-indigo-600/25 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:cursor-not-allowed disabled:opacity-60"
-                >
-                  {loading ? (
-                    <span className="flex items-center justify-center gap-2">
-                      <svg
-                        className="h-5 w-5 animate-spin text-white"
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                      >
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path
-                          className="opacity-75"
-                          fill="currentColor"
-                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                        />
-                      </svg>
-                      <span>Creating account…</span>
-                    </span>
-                  ) : (
-                    'Create account'
+                  {step === LAST_STEP && captcha.required && (
+                    <CaptchaChallenge key={captcha.widgetKey} onToken={captcha.setToken} />
                   )}
-                </button>
+
+                  <div className="flex gap-2 pt-1">
+                    {step > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => goTo(step - 1)}
+                        disabled={loading}
+                        className="flex-1 rounded-md border border-gray-200 bg-white py-2 text-sm font-semibold text-gray-700 shadow-sm transition hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Back
+                      </button>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={loading || (step === LAST_STEP && isThrottled)}
+                      className="flex-1 rounded-md bg-indigo-600 py-2 text-sm font-semibold text-white shadow-md shadow-indigo-600/20 transition hover:bg-indigo-700 hover:shadow-lg hover:shadow-indigo-600/25 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {loading ? (
+                        <span className="flex items-center justify-center gap-2">
+                          <svg
+                            className="h-5 w-5 animate-spin text-white"
+                            xmlns="http://www.w3.org/2000/svg"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                          >
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path
+                              className="opacity-75"
+                              fill="currentColor"
+                              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                            />
+                          </svg>
+                          <span>Creating account…</span>
+                        </span>
+                      ) : step === LAST_STEP ? (
+                        'Create account'
+                      ) : (
+                        'Next'
+                      )}
+                    </button>
+                  </div>
+                </form>
               </div>
-            </form>
-          </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
+const Register = () => {
+  const [searchParams] = useSearchParams();
+  const invite = useInvitation(searchParams.get('invite'));
+
+  if (invite.status === 'none' || invite.status === 'valid') {
+    // Keyed so another invite link starts from a fresh form
+    return <RegisterForm key={invite.invitation?.token ?? ''} invitation={invite.invitation} />;
+  }
+  return <InvitationNotice status={invite.status} message={invite.message} />;
+};
+
 export default Register;
@@ -1,25 +1,46 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
-import { getApiUrl } from '../../utils/api';
-import { messageFromApiErrorBody } from '../../utils/apiErrors';
+import { apiRequest } from '../../utils/apiClient';
 import { frontendContextHeaders } from '../../utils/frontendRequestHints';
+import { useForm } from '../../utils/useForm';
+import { required, sameAs, type FormSchema } from '../../utils/formValidation';
+import { meetsPasswordPolicy, type PasswordPolicy } from '../../utils/passwordPolicy';
+import { usePasswordPolicy } from '../../utils/usePasswordPolicy';
+import FieldError from '../form/FieldError';
+import PasswordPolicyChecklist from '../password-policy/PasswordPolicyChecklist';
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+const resetPasswordSchema = (policy: PasswordPolicy): FormSchema<ResetPasswordFormData> => ({
+  password: { rules: [required('Please choose a new password'), meetsPasswordPolicy(policy)] },
+  confirmPassword: {
+    rules: [required('Please confirm your new password'), sameAs('password', 'Passwords do not match')],
+  },
+});
 
 const ResetPassword = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const token = searchParams.get('token') ?? '';
 
-  const [password, setPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const passwordPolicy = usePasswordPolicy();
+  const schema = useMemo(() => resetPasswordSchema(passwordPolicy), [passwordPolicy]);
+  const form = useForm<ResetPasswordFormData>({
+    initialValues: { password: '', confirmPassword: '' },
+    schema,
+    onEdit: () => setError(null),
+  });
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (password !== confirmPassword) {
-      setError('Passwords do not match');
+    if (!form.validate()) {
       return;
     }
     if (!token.trim()) {
@@ -32,44 +53,28 @@ const ResetPassword = () => {
     setSuccessMessage(null);
 
     try {
-      const response = await fetch(getApiUrl('/api/auth/reset-password'), {
+      const data = await apiRequest<Record<string, unknown> | null>('/api/auth/reset-password', {
         method: 'POST',
+        auth: false,
         headers: frontendContextHeaders(),
-        body: JSON.stringify({
+        body: {
           token: token.trim(),
-          password,
-          confirmPassword,
-        }),
+          password: form.values.password,
+          confirmPassword: form.values.confirmPassword,
+        },
+        allowEmpty: true,
       });
 
-      const contentType = response.headers.get('content-type');
-      let data: Record<string, unknown> = {};
-
-      if (contentType?.includes('application/json')) {
-        data = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-      }
-
-      if (!response.ok) {
-        const detail = messageFromApiErrorBody(data);
-        const message =
-          detail ||
-          (typeof data.message === 'string' ? data.message : null) ||
-          `Request failed (${response.status})`;
-        console.error('Reset password failed:', response.status, data);
-        throw new Error(message);
-      }
-
       const msg =
-        typeof data.message === 'string' ? data.message : 'Your password was updated. You can sign in now.';
+        typeof data?.message === 'string' ? data.message : 'Your password was updated. You can sign in now.';
       setSuccessMessage(msg);
-      setPassword('');
-      setConfirmPassword('');
+      form.reset();
 
       window.setTimeout(() => {
         navigate('/login', { replace: true, state: { passwordReset: true, resetMessage: msg } });
       }, 1500);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong');
+      setError(form.applyServerErrors(err, 'Something went wrong'));
       console.error('Reset password error:', err);
     } finally {
       setLoading(false);
@@ -139,26 +144,22 @@ const ResetPassword = () => {
           )}
 
           {!successMessage && (
-            <form onSubmit={handleSubmit} className="space-y-2">
+            <form onSubmit={handleSubmit} noValidate className="space-y-2">
               <div>
                 <label htmlFor="new-password" className="block text-xs font-medium text-gray-700 mb-0.5">
                   New password
                 </label>
                 <input
                   type="password"
-                  id="new-password"
-                  name="password"
-                  value={password}
-                  onChange={(e) => {
-                    setPassword(e.target.value);
-                    if (error) setError(null);
-                  }}
+                  {...form.field('password', 'new-password')}
                   required
-                  minLength={6}
+                  minLength={passwordPolicy.minLength}
                   autoComplete="new-password"
                   className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
-                  placeholder="At least 6 characters"
+                  placeholder={`At least ${passwordPolicy.minLength} characters`}
                 />
+                <PasswordPolicyChecklist password={form.values.password} policy={passwordPolicy} />
+                <FieldError inputId="new-password" message={form.errors.password} />
               </div>
               <div>
                 <label htmlFor="confirm-new-password" className="block text-xs font-medium text-gray-700 mb-0.5">
@@ -166,19 +167,13 @@ const ResetPassword = () => {
                 </label>
                 <input
                   type="password"
-                  id="confirm-new-password"
-                  name="confirmPassword"
-                  value={confirmPassword}
-                  onChange={(e) => {
-                    setConfirmPassword(e.target.value);
-                    if (error) setError(null);
-                  }}
+                  {...form.field('confirmPassword', 'confirm-new-password')}
                   required
-                  minLength={6}
                   autoComplete="new-password"
                   className="w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent"
                   placeholder="Re-enter password"
                 />
+                <FieldError inputId="confirm-new-password" message={form.errors.confirmPassword} />
               </div>
               <button
                 type="submit"
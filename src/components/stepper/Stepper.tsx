@@ -0,0 +1,39 @@
+interface StepperProps {
+  steps: string[];
+  /** Index of the current step */
+  current: number;
+}
+
+/**
+ * Numbered progress indicator for multi-step forms
+ */
+const Stepper = ({ steps, current }: StepperProps) => (
+  <ol className="flex items-center gap-1.5" aria-label="Progress">
+    {steps.map((title, index) => {
+      const done = index < current;
+      const active = index === current;
+      return (
+        <li key={title} className="flex flex-1 items-center gap-1.5" aria-current={active ? 'step' : undefined}>
+          <span
+            className={`flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-[10px] font-semibold ${
+              done
+                ? 'bg-indigo-600 text-white'
+                : active
+                  ? 'bg-indigo-100 text-indigo-700 ring-1 ring-indigo-600'
+                  : 'bg-gray-100 text-gray-500'
+            }`}
+          >
+            {done ? '✓' : index + 1}
+          </span>
+          <span className={`truncate text-[11px] ${active ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+            {title}
+            {done && <span className="sr-only"> (completed)</span>}
+          </span>
+          {index < steps.length - 1 && <span className="h-px flex-1 bg-gray-200" aria-hidden="true" />}
+        </li>
+      );
+    })}
+  </ol>
+);
+
+export default Stepper;
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+
+interface QrCodeProps {
+  /** Text to encode (e.g. an otpauth:// URI); rendered in the browser, never sent anywhere */
+  value: string;
+  size?: number;
+  label: string;
+}
+
+const QrCode = ({ value, size = 176, label }: QrCodeProps) => {
+  const [rendered, setRendered] = useState<{ value: string; dataUrl: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(value, { width: size, margin: 1, errorCorrectionLevel: 'M' })
+      .then((dataUrl) => {
+        if (!cancelled) {
+          setRendered({ value, dataUrl });
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Could not render QR code:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size]);
+
+  if (!rendered || rendered.value !== value) {
+    return (
+      <div className="flex items-center justify-center bg-gray-100 rounded-md" style={{ width: size, height: size }}>
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return <img src={rendered.dataUrl} width={size} height={size} alt={label} className="rounded-md border border-gray-200" />;
+};
+
+export default QrCode;
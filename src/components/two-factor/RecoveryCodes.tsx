@@ -0,0 +1,75 @@
+import { recoveryCodesText } from '../../utils/twoFactor';
+
+interface RecoveryCodesProps {
+  codes: string[];
+  email: string | null;
+  onDone: () => void;
+}
+
+const RecoveryCodes = ({ codes, email, onDone }: RecoveryCodesProps) => {
+  const text = recoveryCodesText(codes, email);
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=480,height=640');
+    if (!printWindow) {
+      return;
+    }
+    const pre = printWindow.document.createElement('pre');
+    pre.style.font = '14px/1.6 monospace';
+    pre.textContent = text;
+    printWindow.document.title = 'Recovery codes';
+    printWindow.document.body.appendChild(pre);
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div>
+      <div className="bg-amber-50 border border-amber-200 rounded-md p-3 mb-3">
+        <p className="text-sm text-amber-900 font-medium">Save your recovery codes</p>
+        <p className="mt-1 text-xs text-amber-800 leading-snug">
+          Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+        </p>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 bg-gray-50 rounded-md p-3 font-mono text-sm text-gray-900" aria-label="Recovery codes">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="mt-3 flex flex-col gap-2 sm:flex-row">
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors text-sm font-medium"
+        >
+          Download
+        </button>
+        <button
+          type="button"
+          onClick={handlePrint}
+          className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors text-sm font-medium"
+        >
+          Print
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="flex-1 bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium"
+        >
+          I&apos;ve saved them
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TwoFactorSettings from './TwoFactorSettings';
+import SessionProvider from '../../session/SessionProvider';
+import { endSession, getSession, startSession } from '../../session/sessionStore';
+import { jsonResponse } from '../../test/responses';
+
+// qrcode needs a real canvas
+vi.mock('./QrCode', () => ({
+  default: ({ label }: { label: string }) => <div role="img" aria-label={label} />,
+}));
+
+type Route = { status: number; body: unknown };
+
+describe('TwoFactorSettings Component', () => {
+  let routes: Record<string, Route[]>;
+
+  /** Queue a response for "METHOD /path" */
+  const respond = (key: string, status: number, body: unknown) => {
+    (routes[key] ??= []).push({ status, body });
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    endSession();
+    routes = {};
+    globalThis.fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const key = `${init?.method ?? 'GET'} ${new URL(String(input), 'http://localhost').pathname}`;
+      const route = routes[key]?.shift();
+      if (!route) {
+        throw new Error(`Unexpected request: ${key}`);
+      }
+      return jsonResponse(route.status, route.body);
+    }) as unknown as typeof fetch;
+    startSession({ token: 'valid-token', email: 'user@example.com', roles: ['USER'] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderSettings = () =>
+    render(
+      <SessionProvider>
+        <TwoFactorSettings />
+      </SessionProvider>
+    );
+
+  it('should enroll an authenticator and show the recovery codes once', async () => {
+    const user = userEvent.setup();
+    respond('GET /api/users/me/2fa', 200, { enabled: false });
+    respond('POST /api/users/me/2fa/totp/setup', 200, {
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUrl: 'otpauth://totp/App:user@example.com?secret=JBSWY3DPEHPK3PXP',
+    });
+    respond('POST /api/users/me/2fa/totp/confirm', 200, { recoveryCodes: ['aaaa-bbbb', 'cccc-dddd'] });
+    renderSettings();
+
+    await user.click(await screen.findByRole('button', { name: 'Set up authenticator app' }));
+
+    expect(screen.getByRole('img', { name: 'QR code for your authenticator app' })).toBeInTheDocument();
+    expect(screen.getByText('JBSW Y3DP EHPK 3PXP')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('2. Enter the 6-digit code the app shows'), '123456');
+    await user.click(screen.getByRole('button', { name: 'Turn on' }));
+
+    expect(await screen.findByText('aaaa-bbbb')).toBeInTheDocument();
+    expect(screen.getByText('cccc-dddd')).toBeInTheDocument();
+  });
+
+  it('should keep the user signed in and let them retry after a wrong code', async () => {
+    const user = userEvent.setup();
+    respond('GET /api/users/me/2fa', 200, { enabled: false });
+    respond('POST /api/users/me/2fa/totp/setup', 200, {
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUrl: 'otpauth://totp/App?secret=JBSWY3DPEHPK3PXP',
+    });
+    respond('POST /api/users/me/2fa/totp/confirm', 401, { message: 'Invalid code' });
+    renderSettings();
+
+    await user.click(await screen.findByRole('button', { name: 'Set up authenticator app' }));
+    await user.type(screen.getByLabelText('2. Enter the 6-digit code the app shows'), '000000');
+    await user.click(screen.getByRole('button', { name: 'Turn on' }));
+
+    expect(await screen.findByText('Error: Invalid code')).toBeInTheDocument();
+    expect(screen.getByLabelText('2. Enter the 6-digit code the app shows')).toHaveValue('');
+    expect(getSession()?.token).toBe('valid-token');
+  });
+
+  it('should regenerate recovery codes after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    respond('GET /api/users/me/2fa', 200, { enabled: true, recoveryCodesRemaining: 2 });
+    respond('POST /api/users/me/2fa/recovery-codes', 200, { recoveryCodes: ['eeee-ffff'] });
+    renderSettings();
+
+    expect(await screen.findByText('2 recovery codes left')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Regenerate recovery codes' }));
+
+    expect(window.confirm).toHaveBeenCalled();
+    expect(await screen.findByText('eeee-ffff')).toBeInTheDocument();
+  });
+
+  it('should turn 2FA off with the password, and keep the session on a wrong one', async () => {
+    const user = userEvent.setup();
+    respond('GET /api/users/me/2fa', 200, { enabled: true });
+    respond('POST /api/users/me/2fa/disable', 401, { message: 'Invalid password' });
+    respond('POST /api/users/me/2fa/disable', 200, {});
+    renderSettings();
+
+    await user.click(await screen.findByRole('button', { name: 'Turn off' }));
+    await user.type(screen.getByLabelText('Password'), 'wrong');
+    await user.click(screen.getByRole('button', { name: 'Turn off two-factor authentication' }));
+
+    expect(await screen.findByText('Error: Invalid password')).toBeInTheDocument();
+    expect(getSession()?.token).toBe('valid-token');
+
+    await user.type(screen.getByLabelText('Password'), 'correct-horse');
+    await user.click(screen.getByRole('button', { name: 'Turn off two-factor authentication' }));
+
+    expect(await screen.findByRole('button', { name: 'Set up authenticator app' })).toBeInTheDocument();
+    const disableCalls = (globalThis.fetch as ReturnType<typeof vi.fn>).mock.calls.filter(([url]) =>
+      String(url).endsWith('/2fa/disable')
+    );
+    expect(JSON.parse(disableCalls[1][1].body)).toEqual({ password: 'correct-horse' });
+  });
+});
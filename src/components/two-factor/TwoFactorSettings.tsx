@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import QrCode from './QrCode';
+import RecoveryCodes from './RecoveryCodes';
+import { errorMessage } from '../../utils/apiClient';
+import {
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  type TotpEnrollment,
+  type TwoFactorStatus,
+} from '../../utils/twoFactor';
+import { useSession } from '../../session/useSession';
+
+type View = 'overview' | 'enroll' | 'codes' | 'disable';
+
+/** Authenticator secrets are easier to type in groups of four */
+const formatSecret = (secret: string) => secret.replace(/\s+/g, '').replace(/(.{4})/g, '$1 ').trim();
+
+const inputClass =
+  'w-full max-w-xs px-2.5 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent';
+const primaryButtonClass =
+  'bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed';
+const secondaryButtonClass =
+  'bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed';
+
+const TwoFactorSettings = () => {
+  const { user } = useSession();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loadingStatus, setLoadingStatus] = useState<boolean>(true);
+  const [view, setView] = useState<View>('overview');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTwoFactorStatus()
+      .then((result) => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch((err: unknown) => {
+        console.error('Error loading two-factor status:', err);
+        if (!cancelled) setError(errorMessage(err, 'Could not load two-factor settings'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingStatus(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const backToOverview = () => {
+    setView('overview');
+    setEnrollment(null);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const handleStartEnrollment = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setEnrollment(await startTotpEnrollment());
+      setView('enroll');
+    } catch (err) {
+      setError(errorMessage(err, 'Could not start two-factor setup'));
+      console.error('2FA setup error:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const codes = await confirmTotpEnrollment(code);
+      setStatus({ enabled: true, recoveryCodesRemaining: codes.length || null });
+      setRecoveryCodes(codes);
+      setEnrollment(null);
+      setCode('');
+      setView(codes.length > 0 ? 'codes' : 'overview');
+    } catch (err) {
+      setCode('');
+      setError(errorMessage(err, 'That code did not work. Check your authenticator and try again.'));
+      console.error('2FA confirm error:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!window.confirm('Generate new recovery codes? Your current codes will stop working.')) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const codes = await regenerateRecoveryCodes();
+      setRecoveryCodes(codes);
+      setStatus((prev) => (prev ? { ...prev, recoveryCodesRemaining: codes.length } : prev));
+      setView('codes');
+    } catch (err) {
+      setError(errorMessage(err, 'Could not generate new recovery codes'));
+      console.error('Recovery code error:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await disableTwoFactor(password);
+      setStatus({ enabled: false, recoveryCodesRemaining: null });
+      backToOverview();
+    } catch (err) {
+      setPassword('');
+      setError(errorMessage(err, 'Could not turn off two-factor authentication'));
+      console.error('2FA disable error:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-6">
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-1">Security</h2>
+      <h3 className="text-base font-semibold text-gray-900">Two-factor authentication</h3>
+
+      {error && (
+        <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3">
+          <p className="text-sm text-red-800 font-medium wrap-break-word">Error: {error}</p>
+        </div>
+      )}
+
+      {loadingStatus && (
+        <div className="mt-3 flex items-center">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+          <span className="ml-3 text-sm text-gray-600">Loading security settings...</span>
+        </div>
+      )}
+
+      {!loadingStatus && status && view === 'overview' && (
+        <div className="mt-2">
+          {status.enabled ? (
+            <>
+              <p className="text-sm text-gray-700">
+                <span className="font-medium text-emerald-700">On.</span> You&apos;ll be asked for a code from your
+                authenticator app when you sign in.
+              </p>
+              {status.recoveryCodesRemaining !== null && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+                </p>
+              )}
+              <div className="mt-3 flex flex-col gap-2 sm:flex-row">
+                <button type="button" onClick={handleRegenerateCodes} disabled={busy} className={secondaryButtonClass}>
+                  Regenerate recovery codes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null);
+                    setView('disable');
+                  }}
+                  disabled={busy}
+                  className={secondaryButtonClass}
+                >
+                  Turn off
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700">
+                Add a second step to sign-in with an authenticator app such as Google Authenticator, 1Password or Authy.
+              </p>
+              <button type="button" onClick={handleStartEnrollment} disabled={busy} className={`mt-3 ${primaryButtonClass}`}>
+                {busy ? 'Preparing...' : 'Set up authenticator app'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {view === 'enroll' && enrollment && (
+        <form onSubmit={handleConfirmEnrollment} className="mt-3 space-y-3">
+          <p className="text-sm text-gray-700">1. Scan this QR code with your authenticator app.</p>
+          <QrCode value={enrollment.otpauthUrl} label="QR code for your authenticator app" />
+          <div>
+            <p className="text-sm text-gray-700">Can&apos;t scan it? Enter this key instead:</p>
+            <code className="mt-1 inline-block bg-gray-100 rounded px-2 py-1 font-mono text-sm text-gray-900 select-all break-all">
+              {formatSecret(enrollment.secret)}
+            </code>
+          </div>
+          <div>
+            <label htmlFor="totpCode" className="block text-sm text-gray-700 mb-1">
+              2. Enter the 6-digit code the app shows
+            </label>
+            <input
+              type="text"
+              id="totpCode"
+              name="totpCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              maxLength={10}
+              className={`${inputClass} tracking-widest`}
+              placeholder="123456"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy || !code.trim()} className={primaryButtonClass}>
+              {busy ? 'Verifying...' : 'Turn on'}
+            </button>
+            <button type="button" onClick={backToOverview} disabled={busy} className={secondaryButtonClass}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {view === 'codes' && (
+        <div className="mt-3">
+          <RecoveryCodes codes={recoveryCodes} email={user?.email ?? null} onDone={backToOverview} />
+        </div>
+      )}
+
+      {view === 'disable' && (
+        <form onSubmit={handleDisable} className="mt-3 space-y-3">
+          <p className="text-sm text-gray-700">
+            Turning off two-factor authentication makes your account easier to break into. Enter your password to confirm.
+          </p>
+          <div>
+            <label htmlFor="disable2faPassword" className="block text-sm text-gray-700 mb-1">
+              Password
+            </label>
+            <input
+              type="password"
+              id="disable2faPassword"
+              name="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy || !password}
+              className="bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? 'Turning off...' : 'Turn off two-factor authentication'}
+            </button>
+            <button type="button" onClick={backToOverview} disabled={busy} className={secondaryButtonClass}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
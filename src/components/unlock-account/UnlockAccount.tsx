@@ -0,0 +1,101 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { ApiError, errorMessage } from '../../utils/apiClient';
+import { unlockAccount } from '../../utils/accountUnlock';
+
+const UnlockAccount = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [message, setMessage] = useState<string>('');
+  const hasUnlockedRef = useRef<boolean>(false);
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    // The link works once; never send its token twice (StrictMode, re-renders)
+    if (hasUnlockedRef.current) {
+      return;
+    }
+    hasUnlockedRef.current = true;
+
+    const unlock = async () => {
+      if (!token) {
+        setStatus('error');
+        setMessage('Unlock token is missing. Please check your email link.');
+        return;
+      }
+
+      try {
+        setMessage(await unlockAccount(token));
+        setStatus('success');
+      } catch (error) {
+        console.error('Account unlock error:', error);
+        setStatus('error');
+        if (error instanceof ApiError && [400, 401, 404, 410].includes(error.status)) {
+          setMessage(errorMessage(error, 'This unlock link is invalid or has expired.'));
+        } else {
+          setMessage(errorMessage(error, 'An error occurred while unlocking your account. Please try again later.'));
+        }
+      }
+    };
+
+    unlock();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8">
+        {status === 'loading' && (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Unlocking your account...</h2>
+            <p className="mt-2 text-gray-600">Please wait while we check your unlock link.</p>
+          </div>
+        )}
+
+        {status === 'success' && (
+          <div className="text-center">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-green-100">
+              <svg className="h-6 w-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Account Unlocked</h2>
+            <p className="mt-2 text-gray-600">{message}</p>
+            <button
+              onClick={() => navigate('/login', { replace: true })}
+              className="mt-6 w-full bg-indigo-600 text-white py-2.5 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium"
+            >
+              Go to Login
+            </button>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="text-center">
+            <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
+              <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </div>
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Unlock Link Not Valid</h2>
+            <div className="mt-4 text-left bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-700 text-sm">{message}</p>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              You can request a new unlock link from the login page the next time your account is locked.
+            </p>
+            <button
+              onClick={() => navigate('/login', { replace: true })}
+              className="mt-6 w-full bg-indigo-600 text-white py-2.5 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium"
+            >
+              Go to Login
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnlockAccount;
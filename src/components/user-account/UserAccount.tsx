@@ -1,18 +1,19 @@
 import UserCount from '../user-count/UserCount';
+import TwoFactorSettings from '../two-factor/TwoFactorSettings';
+import PasskeySettings from '../passkeys/PasskeySettings';
+import PhoneSettings from '../profile/PhoneSettings';
 
-interface UserAccountProps {
-  isAuthenticated: boolean;
-}
-
-const UserAccount = ({ isAuthenticated }: UserAccountProps) => {
+const UserAccount = () => {
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-        <UserCount isAuthenticated={isAuthenticated} compact={false} />
+        <UserCount compact={false} />
+        <PhoneSettings />
+        <TwoFactorSettings />
+        <PasskeySettings />
       </div>
     </div>
   );
 };
 
 export default UserAccount;
-
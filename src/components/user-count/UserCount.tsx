@@ -1,12 +1,18 @@
 import { useState, useEffect } from 'react';
-import { getApiUrl } from '../../utils/api';
+import { apiRequest, ApiError, errorMessage } from '../../utils/apiClient';
+import { useSession } from '../../session/useSession';
+import { usesCookieAuth } from '../../session/tokenStorage';
 
 interface UserCountProps {
-  isAuthenticated: boolean;
   compact?: boolean; // For navbar display
 }
 
-const UserCount = ({ isAuthenticated, compact = false }: UserCountProps) => {
+const UserCount = ({ compact = false }: UserCountProps) => {
+  const { isAuthenticated, user, token } = useSession();
+  const email = user?.email ?? '';
+  // Only whether a token exists matters here; a silent refresh should not refetch
+  // (cookie mode has no readable token, the httpOnly cookie authenticates instead)
+  const hasToken = token !== null || usesCookieAuth();
   const [userInfo, setUserInfo] = useState<Record<string, unknown> | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -22,126 +28,72 @@ const UserCount = ({ isAuthenticated, compact = false }: UserCountProps) => {
         setLoading(true);
         setError(null);
 
-        const email = localStorage.getItem('userEmail');
-        const token = localStorage.getItem('token');
-        
         if (!email) {
           throw new Error('No user email found');
         }
 
         // Try GET with query parameter first
-        // Use getApiUrl to handle both dev and production environments
-        const apiUrl = `${getApiUrl('/api/users/by-email')}?email=${encodeURIComponent(email)}`;
-        console.log('Fetching user info from:', apiUrl);
-
-        const headers: HeadersInit = {
-          'Accept': 'application/json',
-        };
-
-        // Add token if available
-        if (token) {
-          headers['Authorization'] = `Bearer ${token}`;
-        }
-
-        let response = await fetch(apiUrl, {
-          method: 'GET',
-          headers: headers,
-        });
-
-        let contentType = response.headers.get('content-type') || '';
-
-        // If GET returns HTML, try POST with email in body (some APIs require POST)
-        if (!contentType.includes('application/json') && response.status === 200) {
-          console.log('GET returned HTML, trying POST method...');
-          
-          const postHeaders: HeadersInit = {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          };
-          
-          if (token) {
-            postHeaders['Authorization'] = `Bearer ${token}`;
+        console.log('Fetching user info for:', email);
+        let data: Record<string, unknown>;
+        try {
+          data = await apiRequest<Record<string, unknown>>('/api/users/by-email', { query: { email } });
+        } catch (err) {
+          // If GET returns HTML, try POST with email in body (some APIs require POST)
+          if (!(err instanceof ApiError && err.code === 'invalid_response' && err.status === 200)) {
+            throw err;
           }
-
-          response = await fetch(getApiUrl('/api/users/by-email'), {
+          console.log('GET returned HTML, trying POST method...');
+          data = await apiRequest<Record<string, unknown>>('/api/users/by-email', {
             method: 'POST',
-            headers: postHeaders,
-            body: JSON.stringify({ email: email }),
+            body: { email: email },
           });
-
-          contentType = response.headers.get('content-type') || '';
         }
 
-        // Check if response is HTML (error page)
-        if (!contentType.includes('application/json')) {
-          const text = await response.text();
-          console.error('Server returned HTML instead of JSON:', text.substring(0, 200));
-          console.error('Response status:', response.status);
-          console.error('Response headers:', Object.fromEntries(response.headers.entries()));
-          
-          if (response.status === 404) {
-            throw new Error(`Endpoint not found: /api/users/by-email. Please verify the API endpoint exists.`);
+        // Store all data from API
+        setUserInfo(data);
+      } catch (err) {
+        // Non-JSON error responses are HTML error pages (body holds the text)
+        if (err instanceof ApiError && typeof err.body === 'string') {
+          console.error('Server returned HTML instead of JSON:', err.body.substring(0, 200));
+          console.error('Response status:', err.status);
+
+          if (err.status === 404) {
+            setError(`Endpoint not found: /api/users/by-email. Please verify the API endpoint exists.`);
+          } else {
+            setError(
+              `Server returned HTML instead of JSON (Status: ${err.status}). ` +
+              `This usually means the endpoint doesn't exist or there's a server configuration issue. ` +
+              `Check if the endpoint: http://localhost:8080/api/users/by-email exists. ` +
+              `Also check browser console and Network tab for CORS errors.`
+            );
           }
-          
-          throw new Error(
-            `Server returned HTML instead of JSON (Status: ${response.status}). ` +
-            `This usually means the endpoint doesn't exist or there's a server configuration issue. ` +
-            `Check if the endpoint: http://localhost:8080/api/users/by-email exists. ` +
-            `Also check browser console and Network tab for CORS errors.`
-          );
+          return;
         }
 
-        if (!response.ok) {
-          if (response.status === 404) {
-            // User not found - might be a new OAuth2 user
-            // Try to get user info from token-based endpoint instead
-            if (token) {
-              console.log('User not found by email, trying token-based endpoint...');
-              try {
-                const meResponse = await fetch(getApiUrl('/api/users/me'), {
-                  method: 'GET',
-                  headers: {
-                    'Accept': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                  },
-                });
-
-                if (meResponse.ok) {
-                  const contentType = meResponse.headers.get('content-type');
-                  if (contentType && contentType.includes('application/json')) {
-                    const meData = await meResponse.json();
-                    setUserInfo(meData);
-                    return; // Successfully got user info from /me endpoint
-                  }
-                }
-              } catch (meErr) {
-                console.warn('Could not fetch from /api/users/me:', meErr);
-              }
+        if (err instanceof ApiError && err.status === 404) {
+          // User not found - might be a new OAuth2 user
+          // Try to get user info from token-based endpoint instead
+          if (hasToken) {
+            console.log('User not found by email, trying token-based endpoint...');
+            try {
+              const meData = await apiRequest<Record<string, unknown>>('/api/users/me');
+              setUserInfo(meData);
+              return; // Successfully got user info from /me endpoint
+            } catch (meErr) {
+              console.warn('Could not fetch from /api/users/me:', meErr);
             }
-            
-            // If /me endpoint also fails, create a basic user info from email
-            console.log('Creating basic user info from email for new OAuth2 user');
-            setUserInfo({
-              email: email,
-              name: email.split('@')[0], // Use email prefix as name
-            });
-            return; // Don't throw error, use basic info
-          }
-          let errorMessage = `HTTP error! status: ${response.status}`;
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.message || errorMessage;
-          } catch {
-            // If JSON parsing fails, use default message
           }
-          throw new Error(errorMessage);
+          
+          // If /me endpoint also fails, create a basic user info from email
+          console.log('Creating basic user info from email for new OAuth2 user');
+          setUserInfo({
+            email: email,
+            name: email.split('@')[0], // Use email prefix as name
+          });
+          return; // Don't show error, use basic info
         }
 
-        const data = await response.json();
-        // Store all data from API
-        setUserInfo(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch user information');
+        setError(errorMessage(err, 'Failed to fetch user information'));
         console.error('Error fetching user info:', err);
       } finally {
         setLoading(false);
@@ -149,7 +101,7 @@ const UserCount = ({ isAuthenticated, compact = false }: UserCountProps) => {
     };
 
     fetchUserInfo();
-  }, [isAuthenticated]);
+  }, [isAuthenticated, email, hasToken]);
 
   // Don't render if not authenticated
   if (!isAuthenticated) {
@@ -167,8 +119,7 @@ const UserCount = ({ isAuthenticated, compact = false }: UserCountProps) => {
     }
 
     // For compact view, show avatar even if there's an error or no userInfo
-    // Use email from localStorage as fallback
-    const email = localStorage.getItem('userEmail') || '';
+    // Use email from the session as fallback
     const displayName = userInfo 
       ? ((userInfo.name as string) || (userInfo.username as string) || email.split('@')[0] || 'User')
       : (email.split('@')[0] || 'User');
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import VerifyEmail from './VerifyEmail';
+import { jsonResponse } from '../../test/responses';
+
+describe('VerifyEmail Component', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should count a successful response with an unreadable body as verified', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => {
+        throw new SyntaxError('Unexpected end of JSON input');
+      },
+      text: async () => '',
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/verify-email?token=abc123']}>
+        <VerifyEmail />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('Email verified successfully! You can now log in.')).toBeInTheDocument();
+  });
+
+  it('should offer a new link when the backend reports the link as expired only in its message', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      jsonResponse(400, { message: 'Verification token has expired' })
+    );
+
+    render(
+      <MemoryRouter initialEntries={['/verify-email?token=abc123']}>
+        <VerifyEmail />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('Verification Link Expired')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /resend verification email/i })).toBeInTheDocument();
+  });
+});
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { getApiUrl } from '../../utils/api';
+import { apiRequest, ApiError } from '../../utils/apiClient';
+import { isVerificationTokenExpired } from '../../utils/emailVerification';
 
 const VerifyEmail = () => {
   const [searchParams] = useSearchParams();
@@ -9,6 +10,9 @@ const VerifyEmail = () => {
   const [message, setMessage] = useState<string>('');
   const [errorDetails, setErrorDetails] = useState<string>('');
   const [isEmailNotFound, setIsEmailNotFound] = useState<boolean>(false);
+  // Expired link: a new one can be requested (for this address, when the backend tells us)
+  const [isTokenExpired, setIsTokenExpired] = useState<boolean>(false);
+  const [expiredEmail, setExpiredEmail] = useState<string>('');
   const hasVerifiedRef = useRef<boolean>(false);
   const token = searchParams.get('token');
 
@@ -35,92 +39,89 @@ const VerifyEmail = () => {
       setMessage('');
 
       try {
-        // Call backend API to verify the token
-        const response = await fetch(getApiUrl(`/api/auth/verify-email?token=${encodeURIComponent(token)}`), {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+        // Call backend API to verify the token (a non-JSON success still counts as verified)
+        const data = await apiRequest<{ message?: string } | null>('/api/auth/verify-email', {
+          auth: false,
+          query: { token },
+          allowEmpty: true,
         });
+        setStatus('success');
+        setMessage(data?.message || 'Email verified successfully! You can now log in.');
+      } catch (error) {
+        if (error instanceof ApiError && error.status >= 200 && error.status < 300) {
+          // The backend verified the token; only its body could not be read
+          console.warn('Verification succeeded but the response could not be read:', error);
+          setStatus('success');
+          setMessage('Email verified successfully! You can now log in.');
+          return;
+        }
+        if (!(error instanceof ApiError) || error.status === 0) {
+          // Only show a generic error for actual network/request errors
+          console.error('Email verification error:', error);
+          setStatus('error');
+          setMessage('An error occurred while verifying your email. Please try again later.');
+          setErrorDetails(error instanceof Error && error.message ? error.message : 'Network or connection error');
+          return;
+        }
 
-        // Check if response is ok (status 200-299)
-        if (response.ok) {
-          try {
-            const data = await response.json();
-            setStatus('success');
-            setMessage(data.message || 'Email verified successfully! You can now log in.');
-          } catch (jsonError) {
-            // If response is ok but not JSON, still treat as success
-            console.warn('Response is ok but not JSON:', jsonError);
-            setStatus('success');
-            setMessage('Email verified successfully! You can now log in.');
-          }
-        } else {
-          // Handle error response - extract detailed error information
-          let errorMessage = 'Email verification failed.';
-          let errorDetails = '';
-          let emailNotFound = false;
-          const statusCode = response.status;
-          
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.message || errorData.error || errorMessage;
-            
-            // Check if this is an "Email address not found" error (404 status)
-            const lowerMessage = errorMessage.toLowerCase();
-            if (
-              statusCode === 404 ||
-              lowerMessage.includes('email address not found') ||
-              lowerMessage.includes('email not found') ||
-              lowerMessage.includes('user not found') ||
-              lowerMessage.includes('email does not exist')
-            ) {
-              emailNotFound = true;
-              // Keep the backend message but ensure it's clear
-              if (!lowerMessage.includes('not found') && !lowerMessage.includes('does not exist')) {
-                errorMessage = 'Email address not found. The email address may not be registered in our system.';
-              }
-              errorDetails = 'Please register a new account to continue.';
-            } else {
-              // Extract additional error details if available (only for other errors)
-              if (errorData.details) {
-                errorDetails = errorData.details;
-              } else if (errorData.validationErrors) {
-                errorDetails = Array.isArray(errorData.validationErrors) 
-                  ? errorData.validationErrors.join(', ')
-                  : String(errorData.validationErrors);
-              }
-              
-              // Include status code in details if available
-              if (statusCode) {
-                errorDetails = errorDetails 
-                  ? `${errorDetails} (Status: ${statusCode})`
-                  : `Status: ${statusCode}`;
-              }
-            }
-          } catch {
-            // If response is not JSON, check status code
-            if (statusCode === 404) {
-              emailNotFound = true;
+        // Handle error response - extract detailed error information
+        const statusCode = error.status;
+        const errorData = (error.body && typeof error.body === 'object' ? error.body : null) as Record<string, unknown> | null;
+        let errorMessage = 'Email verification failed.';
+        let errorDetails = '';
+        let emailNotFound = false;
+
+        if (errorData) {
+          errorMessage = (errorData.message as string) || (errorData.error as string) || errorMessage;
+
+          // Check if this is an "Email address not found" error (404 status)
+          const lowerMessage = errorMessage.toLowerCase();
+          if (
+            statusCode === 404 ||
+            lowerMessage.includes('email address not found') ||
+            lowerMessage.includes('email not found') ||
+            lowerMessage.includes('user not found') ||
+            lowerMessage.includes('email does not exist')
+          ) {
+            emailNotFound = true;
+            // Keep the backend message but ensure it's clear
+            if (!lowerMessage.includes('not found') && !lowerMessage.includes('does not exist')) {
               errorMessage = 'Email address not found. The email address may not be registered in our system.';
-              errorDetails = 'Please register a new account to continue.';
-            } else {
-              errorMessage = response.statusText || `Verification failed with status ${statusCode}`;
-              errorDetails = `HTTP Status: ${statusCode}`;
             }
+            errorDetails = 'Please register a new account to continue.';
+          } else {
+            // Extract additional error details if available (only for other errors)
+            if (typeof errorData.details === 'string') {
+              errorDetails = errorData.details;
+            } else if (errorData.validationErrors) {
+              errorDetails = Array.isArray(errorData.validationErrors)
+                ? errorData.validationErrors.join(', ')
+                : String(errorData.validationErrors);
+            }
+
+            // Include status code in details
+            errorDetails = errorDetails
+              ? `${errorDetails} (Status: ${statusCode})`
+              : `Status: ${statusCode}`;
           }
-          
-          setStatus('error');
-          setMessage(errorMessage);
-          setErrorDetails(errorDetails);
-          setIsEmailNotFound(emailNotFound);
+        } else if (statusCode === 404) {
+          // Response was not JSON, so go by status code
+          emailNotFound = true;
+          errorMessage = 'Email address not found. The email address may not be registered in our system.';
+          errorDetails = 'Please register a new account to continue.';
+        } else {
+          errorMessage = `Verification failed with status ${statusCode}`;
+          errorDetails = `HTTP Status: ${statusCode}`;
         }
-      } catch (error) {
-        // Only show error for actual network/request errors
-        console.error('Email verification error:', error);
+
         setStatus('error');
-        setMessage('An error occurred while verifying your email. Please try again later.');
-        setErrorDetails(error instanceof Error ? error.message : 'Network or connection error');
+        setMessage(errorMessage);
+        setErrorDetails(errorDetails);
+        setIsEmailNotFound(emailNotFound);
+        if (!emailNotFound && isVerificationTokenExpired(error)) {
+          setIsTokenExpired(true);
+          setExpiredEmail(typeof errorData?.email === 'string' ? errorData.email : '');
+        }
       }
     };
 
@@ -187,7 +188,11 @@ const VerifyEmail = () => {
               </svg>
             </div>
             <h2 className="mt-4 text-xl font-semibold text-gray-900">
-              {isEmailNotFound ? 'Email Address Not Found' : 'Email Verification Failed'}
+              {isEmailNotFound
+                ? 'Email Address Not Found'
+                : isTokenExpired
+                  ? 'Verification Link Expired'
+                  : 'Email Verification Failed'}
             </h2>
             <div className="mt-4 text-left bg-red-50 border border-red-200 rounded-lg p-4">
               <p className="text-red-800 font-medium mb-2">Reason:</p>
@@ -220,6 +225,26 @@ const VerifyEmail = () => {
                     Go to Login
                   </button>
                 </>
+              ) : isTokenExpired ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-2">
+                    Verification links are only valid for a limited time. Request a new one to finish signing up.
+                  </p>
+                  <button
+                    onClick={() =>
+                      navigate('/resend-verification', { replace: true, state: { email: expiredEmail } })
+                    }
+                    className="w-full bg-indigo-600 text-white py-2.5 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium"
+                  >
+                    Resend Verification Email
+                  </button>
+                  <button
+                    onClick={() => navigate('/login', { replace: true })}
+                    className="w-full bg-gray-200 text-gray-800 py-2.5 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+                  >
+                    Go to Login
+                  </button>
+                </>
               ) : (
                 <>
                   <p className="text-sm text-gray-600 mb-2">What would you like to do?</p>
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { renderToStaticMarkup } from 'react-dom/server';
+import VerifyEmailCode from './VerifyEmailCode';
+import { jsonResponse } from '../../test/responses';
+
+describe('VerifyEmailCode Component', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const renderCode = (expiresInSeconds = 900) =>
+    render(
+      <MemoryRouter>
+        <VerifyEmailCode email="jane@example.com" expiresInSeconds={expiresInSeconds} />
+      </MemoryRouter>
+    );
+
+  const codeInput = () => screen.getByLabelText('Or enter the 6-digit code we sent to jane@example.com');
+
+  it('should start with a fresh code, not an expired one', () => {
+    // The first render, before any effect has started the countdown
+    const firstRender = renderToStaticMarkup(
+      <MemoryRouter>
+        <VerifyEmailCode email="jane@example.com" expiresInSeconds={900} />
+      </MemoryRouter>
+    );
+    expect(firstRender).toContain('Code expires in 15:00');
+    expect(firstRender).not.toContain('has expired');
+
+    renderCode();
+
+    expect(codeInput()).toBeEnabled();
+    expect(screen.getByText('Code expires in 15:00')).toBeInTheDocument();
+    expect(screen.queryByText(/has expired/)).not.toBeInTheDocument();
+  });
+
+  it('should verify the address with the code', async () => {
+    const user = userEvent.setup();
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { message: 'Email verified' }));
+    renderCode();
+
+    await user.type(codeInput(), '123 456');
+    await user.click(screen.getByRole('button', { name: 'Verify email' }));
+
+    expect(await screen.findByText('Email verified')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Go to login' })).toBeInTheDocument();
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ email: 'jane@example.com', code: '123456' });
+  });
+
+  it('should show a rejected code as an error and keep the input usable', async () => {
+    const user = userEvent.setup();
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { message: 'Invalid or expired code' }));
+    renderCode();
+
+    await user.type(codeInput(), '000000');
+    await user.click(screen.getByRole('button', { name: 'Verify email' }));
+
+    expect(await screen.findByText('Error: Invalid or expired code')).toBeInTheDocument();
+    expect(codeInput()).toBeEnabled();
+  });
+
+  it('should stop accepting the code once the backend says it expired', async () => {
+    const user = userEvent.setup();
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(410, { message: 'Code expired' }));
+    renderCode();
+
+    await user.type(codeInput(), '123456');
+    await user.click(screen.getByRole('button', { name: 'Verify email' }));
+
+    expect(await screen.findByText('This code has expired. Send a new one to continue.')).toBeInTheDocument();
+    expect(codeInput()).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Verify email' })).toBeDisabled();
+  });
+
+  it('should expire the code when the countdown runs out', () => {
+    vi.useFakeTimers();
+    renderCode(2);
+
+    act(() => {
+      vi.advanceTimersByTime(3_000);
+    });
+
+    expect(screen.getByText('This code has expired. Send a new one to continue.')).toBeInTheDocument();
+    expect(codeInput()).toBeDisabled();
+  });
+
+  it('should restart the expiry from the resend response', async () => {
+    const user = userEvent.setup();
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { message: 'Sent', codeExpiresIn: 120 }));
+    renderCode(0);
+
+    expect(screen.getByText('This code has expired. Send a new one to continue.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Send a new code' }));
+
+    expect(await screen.findByText('Code expires in 2:00')).toBeInTheDocument();
+    expect(codeInput()).toBeEnabled();
+  });
+});
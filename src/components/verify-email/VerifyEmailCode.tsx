@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import config from '../../config';
+import { errorMessage } from '../../utils/apiClient';
+import { isVerificationCodeExpired, verifyEmailCode } from '../../utils/emailVerification';
+import { formatCountdown } from '../../utils/rateLimit';
+import { useCountdown } from '../../utils/useCountdown';
+import { useResendVerification } from '../../utils/useResendVerification';
+import CodeInput from '../code-input/CodeInput';
+
+interface VerifyEmailCodeProps {
+  /** Address the code was sent to (already normalized) */
+  email: string;
+  /** Lifetime of the code just sent */
+  expiresInSeconds: number;
+}
+
+const inputClass =
+  'w-full max-w-full px-2.5 py-1.5 text-sm border border-gray-300 rounded-md h-8 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-100';
+
+/**
+ * Verify the address by typing the emailed code; the link in the same email keeps working
+ */
+const VerifyEmailCode = ({ email, expiresInSeconds }: VerifyEmailCodeProps) => {
+  const { codeLength } = config.emailVerification;
+  const [code, setCode] = useState<string>('');
+  const [verifying, setVerifying] = useState<boolean>(false);
+  const [verified, setVerified] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The backend can say so before our countdown ends (clock skew), or send a lifetime of 0
+  const [expiredByBackend, setExpiredByBackend] = useState<boolean>(() => expiresInSeconds <= 0);
+  const expiry = useCountdown();
+  const startExpiry = expiry.start;
+  const resendVerification = useResendVerification();
+
+  useEffect(() => {
+    startExpiry(expiresInSeconds);
+  }, [startExpiry, expiresInSeconds]);
+
+  // Before the effect starts the countdown (first render) the code is fresh, not expired
+  const expired = expiredByBackend || expiry.finished;
+  const secondsLeft = expiry.secondsLeft || expiresInSeconds;
+
+  const handleVerify = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (code.length !== codeLength) {
+      setError(`Enter the ${codeLength}-digit code from the email`);
+      return;
+    }
+    setVerifying(true);
+    setError(null);
+    try {
+      setVerified(await verifyEmailCode(email, code));
+    } catch (err) {
+      console.error('Email code verification error:', err);
+      if (isVerificationCodeExpired(err)) {
+        setExpiredByBackend(true);
+      } else {
+        setError(errorMessage(err, 'That code is not valid. Check it or request a new one.'));
+      }
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    const sent = await resendVerification.resend(email);
+    if (sent) {
+      setCode('');
+      setError(null);
+      setExpiredByBackend(sent.codeExpiresIn <= 0);
+      startExpiry(sent.codeExpiresIn);
+    }
+  };
+
+  if (verified) {
+    return (
+      <div className="rounded-md border border-emerald-200 bg-emerald-50 p-2.5">
+        <p className="text-xs text-emerald-900 leading-snug sm:text-sm">{verified}</p>
+        <Link to="/login" className="mt-1 inline-block text-xs font-medium text-emerald-900 underline hover:text-emerald-700">
+          Go to login
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} noValidate className="space-y-2">
+      <div>
+        <label htmlFor="emailCode" className="block text-xs font-medium text-gray-700 mb-0.5">
+          Or enter the {codeLength}-digit code we sent to {email}
+        </label>
+        <CodeInput
+          id="emailCode"
+          value={code}
+          onChange={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          length={codeLength}
+          disabled={verifying || expired}
+          className={inputClass}
+        />
+        <p className="mt-0.5 text-[11px] text-gray-500" aria-live="polite">
+          {expired
+            ? 'This code has expired. Send a new one to continue.'
+            : `Code expires in ${formatCountdown(secondsLeft)}`}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-2">
+          <p className="text-xs text-red-800 font-medium wrap-break-word leading-snug">Error: {error}</p>
+        </div>
+      )}
+      {resendVerification.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-2">
+          <p className="text-xs text-red-800 font-medium wrap-break-word leading-snug">
+            Error: {resendVerification.error}
+          </p>
+        </div>
+      )}
+      {resendVerification.message && !expired && (
+        <p className="text-[11px] text-emerald-800 leading-snug">{resendVerification.message}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={verifying || expired || code.length !== codeLength}
+        className="w-full bg-indigo-600 text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {verifying ? 'Verifying...' : 'Verify email'}
+      </button>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={resendVerification.sending || resendVerification.secondsLeft > 0}
+        className="w-full text-[11px] font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+      >
+        {resendVerification.sending
+          ? 'Sending...'
+          : resendVerification.secondsLeft > 0
+            ? `Send a new code in ${formatCountdown(resendVerification.secondsLeft)}`
+            : 'Send a new code'}
+      </button>
+    </form>
+  );
+};
+
+export default VerifyEmailCode;
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { formatStoredPhone } from '../../utils/phone';
+import PhoneVerification from '../phone-verification/PhoneVerification';
+
+/** Handed over by Register's success panel */
+interface VerifyPhoneState {
+  /** E.164 */
+  phone?: string;
+  /** From the registration response; the only proof we act for the new account */
+  verificationToken?: string;
+}
+
+const VerifyPhone = () => {
+  const location = useLocation();
+  const { phone, verificationToken } = (location.state as VerifyPhoneState | null) ?? {};
+  const [verified, setVerified] = useState<boolean>(false);
+
+  return (
+    <div className="min-h-[calc(100dvh-2.5rem)] bg-gray-50 py-2 px-3 flex flex-col justify-center">
+      <div className="max-w-sm mx-auto w-full">
+        <div className="bg-white rounded-lg shadow-md border border-gray-200/80 p-3">
+          <h1 className="text-xl font-bold text-gray-900 mb-1 text-center">Verify your phone</h1>
+
+          {verified ? (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-md p-2 mb-2">
+              <p className="text-xs text-emerald-900 leading-snug">
+                Your phone number is verified. Once your email is verified too, you can log in.
+              </p>
+            </div>
+          ) : phone && verificationToken ? (
+            <>
+              <p className="text-[11px] text-gray-500 text-center mb-3 leading-snug">
+                Optional — confirm the number you registered with.
+              </p>
+              <PhoneVerification
+                owner={{ verificationToken }}
+                phone={formatStoredPhone(phone)}
+                onVerified={() => setVerified(true)}
+              />
+            </>
+          ) : (
+            <p className="text-xs text-gray-700 text-center leading-snug">
+              Log in and verify your phone number from your account page.
+            </p>
+          )}
+
+          <div className="mt-3 text-center">
+            <Link to="/login" className="text-xs font-medium text-indigo-600 hover:text-indigo-500">
+              Go to login
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyPhone;
@@ -11,6 +11,8 @@ export const localConfig = {
     baseUrl: '',
     // Or specify the backend URL directly
     // baseUrl: 'http://localhost:8080',
+    // Abort API requests that take longer than this (milliseconds)
+    timeoutMs: 15000,
   },
   
   // Frontend Configuration
@@ -25,6 +27,56 @@ export const localConfig = {
   oauth2: {
     // Frontend callback URL for local development (includes base path)
     callbackUrl: 'http://localhost:5173/user-management-UI/oauth2/callback',
+    // Provider end-session (RP-initiated logout) pages, used when the backend's logout
+    // response doesn't include its own logoutUrl. Providers without one keep their session.
+    endSessionUrls: {
+      microsoft: 'https://login.microsoftonline.com/common/oauth2/v2.0/logout',
+    } as Record<string, string>,
+    // Where the provider sends the browser after its logout
+    postLogoutRedirectUrl: 'http://localhost:5173/user-management-UI/login',
+  },
+  
+  // Session Configuration
+  session: {
+    // Backend endpoint that exchanges a refresh token (body or httpOnly cookie) for a new access token
+    refreshEndpoint: '/api/auth/refresh',
+    // Refresh the access token this many seconds before it expires
+    refreshLeewaySeconds: 60,
+    // Backend endpoint that revokes the access/refresh tokens on logout
+    logoutEndpoint: '/api/auth/logout',
+    // Where the session is kept:
+    //   'local'   - localStorage when "Remember me" is ticked, otherwise sessionStorage
+    //   'session' - sessionStorage only (signed out when the tab closes)
+    //   'memory'  - never persisted (signed out on reload)
+    //   'cookie'  - tokens stay in httpOnly cookies set by the backend and are never readable
+    //               by scripts; requests are sent with credentials plus the CSRF header below
+    tokenStorage: 'local' as 'local' | 'session' | 'memory' | 'cookie',
+    // CSRF token the backend sets as a readable cookie and expects back as a header ('cookie' mode)
+    csrf: {
+      cookieName: 'XSRF-TOKEN',
+      headerName: 'X-XSRF-TOKEN',
+    },
+  },
+  
+  // Idle Timeout Configuration
+  idleTimeout: {
+    // Sign the user out after this many minutes without activity in any tab (0 disables the timer)
+    timeoutMinutes: 15,
+    // Show the "Stay signed in" countdown this many seconds before signing out
+    warningSeconds: 60,
+    // Also time out sessions kept with "Remember me". Their idle clock keeps running while the
+    // browser is closed, so with this on a remembered session ends as soon as it is restored.
+    includeRememberedSessions: false,
+  },
+  
+  // Role-Based Access Control
+  rbac: {
+    // Permissions granted by each role (roles are matched without a "ROLE_" prefix, case-insensitive).
+    // Permissions sent explicitly by the backend (token claim or /api/users/me) are added on top.
+    rolePermissions: {
+      ADMIN: ['admin:access', 'users:read', 'users:manage', 'profile:read', 'profile:write'],
+      USER: ['profile:read', 'profile:write'],
+    } as Record<string, string[]>,
   },
   
   // Email Verification Configuration
@@ -32,6 +84,67 @@ export const localConfig = {
     // Frontend verification URL for local development (includes base path)
     // Backend uses this when generating email verification links
     verificationUrl: 'http://localhost:5173/user-management-UI/verify-email',
+    // Wait before another verification email can be requested
+    resendCooldownSeconds: 60,
+    // After registering, offer to type the code from the email instead of opening the link
+    // (mail scanners that pre-open links use up the link's token)
+    codeEntry: true,
+    codeLength: 6,
+    // Code lifetime when the backend doesn't send one
+    codeValidityMinutes: 15,
+  },
+  
+  // Magic Link Configuration
+  magicLink: {
+    // Page that consumes passwordless sign-in links (backend appends ?token=...)
+    loginUrl: 'http://localhost:5173/user-management-UI/magic-link',
+  },
+  
+  // Account Unlock Configuration
+  accountUnlock: {
+    // Page that consumes self-service unlock links (backend appends ?token=...)
+    unlockUrl: 'http://localhost:5173/user-management-UI/unlock-account',
+  },
+  
+  // Rate Limit Configuration
+  rateLimit: {
+    // Wait used after a 429 response without a Retry-After header
+    defaultRetrySeconds: 30,
+  },
+  
+  // CAPTCHA Configuration
+  captcha: {
+    // Registered provider id ('local' is a built-in checkbox for development/tests; 'none' disables challenges)
+    provider: 'local' as string,
+    // Public site key passed to the provider's widget
+    siteKey: '',
+    // Show the challenge after this many failed submissions of a form (0: only when the backend asks)
+    failuresBeforeChallenge: 3,
+    // Request body field the solved token is sent in
+    tokenField: 'captchaToken',
+  },
+  
+  // Email Availability Configuration
+  emailAvailability: {
+    // Tell users during registration that an address is already registered.
+    // Turn off where revealing which addresses have accounts is a risk.
+    enabled: true,
+    // Wait after the last keystroke before looking the address up
+    debounceMs: 500,
+  },
+  
+  // Phone Number Configuration
+  phone: {
+    // ISO country preselected in phone inputs ('' uses the browser's region)
+    defaultCountry: '',
+  },
+  
+  // Phone Verification Configuration
+  phoneVerification: {
+    // Digits in the SMS code
+    codeLength: 6,
+    // Wait before another code can be requested
+    resendCooldownSeconds: 60,
   },
   
   // Environment
@@ -13,6 +13,8 @@ export const productionConfig = {
     // Priority: 1. VITE_API_BASE_URL env variable, 2. Default from config
     // Set VITE_API_BASE_URL before building: VITE_API_BASE_URL=https://api.example.com npm run build
     baseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:8080',
+    // Abort API requests that take longer than this (milliseconds)
+    timeoutMs: 15000,
   },
   
   // Frontend Configuration
@@ -27,6 +29,56 @@ export const productionConfig = {
   oauth2: {
     // Frontend callback URL for production (GitHub Pages)
     callbackUrl: 'https://essleman-se.github.io/user-management-UI/oauth2/callback',
+    // Provider end-session (RP-initiated logout) pages, used when the backend's logout
+    // response doesn't include its own logoutUrl. Providers without one keep their session.
+    endSessionUrls: {
+      microsoft: 'https://login.microsoftonline.com/common/oauth2/v2.0/logout',
+    } as Record<string, string>,
+    // Where the provider sends the browser after its logout
+    postLogoutRedirectUrl: 'https://essleman-se.github.io/user-management-UI/login',
+  },
+  
+  // Session Configuration
+  session: {
+    // Backend endpoint that exchanges a refresh token (body or httpOnly cookie) for a new access token
+    refreshEndpoint: '/api/auth/refresh',
+    // Refresh the access token this many seconds before it expires
+    refreshLeewaySeconds: 60,
+    // Backend endpoint that revokes the access/refresh tokens on logout
+    logoutEndpoint: '/api/auth/logout',
+    // Where the session is kept:
+    //   'local'   - localStorage when "Remember me" is ticked, otherwise sessionStorage
+    //   'session' - sessionStorage only (signed out when the tab closes)
+    //   'memory'  - never persisted (signed out on reload)
+    //   'cookie'  - tokens stay in httpOnly cookies set by the backend and are never readable
+    //               by scripts; requests are sent with credentials plus the CSRF header below
+    tokenStorage: 'local' as 'local' | 'session' | 'memory' | 'cookie',
+    // CSRF token the backend sets as a readable cookie and expects back as a header ('cookie' mode)
+    csrf: {
+      cookieName: 'XSRF-TOKEN',
+      headerName: 'X-XSRF-TOKEN',
+    },
+  },
+  
+  // Idle Timeout Configuration
+  idleTimeout: {
+    // Sign the user out after this many minutes without activity in any tab (0 disables the timer)
+    timeoutMinutes: 15,
+    // Show the "Stay signed in" countdown this many seconds before signing out
+    warningSeconds: 60,
+    // Also time out sessions kept with "Remember me". Their idle clock keeps running while the
+    // browser is closed, so with this on a remembered session ends as soon as it is restored.
+    includeRememberedSessions: false,
+  },
+  
+  // Role-Based Access Control
+  rbac: {
+    // Permissions granted by each role (roles are matched without a "ROLE_" prefix, case-insensitive).
+    // Permissions sent explicitly by the backend (token claim or /api/users/me) are added on top.
+    rolePermissions: {
+      ADMIN: ['admin:access', 'users:read', 'users:manage', 'profile:read', 'profile:write'],
+      USER: ['profile:read', 'profile:write'],
+    } as Record<string, string[]>,
   },
   
   // Email Verification Configuration
@@ -34,6 +86,69 @@ export const productionConfig = {
     // Frontend verification URL for production
     // Backend should use this when generating email verification links
     verificationUrl: 'https://essleman-se.github.io/user-management-UI/verify-email',
+    // Wait before another verification email can be requested
+    resendCooldownSeconds: 60,
+    // After registering, offer to type the code from the email instead of opening the link
+    // (mail scanners that pre-open links use up the link's token).
+    // Off until the backend provides POST /api/auth/verify-email/code.
+    codeEntry: false,
+    codeLength: 6,
+    // Code lifetime when the backend doesn't send one
+    codeValidityMinutes: 15,
+  },
+  
+  // Magic Link Configuration
+  magicLink: {
+    // Page that consumes passwordless sign-in links (backend appends ?token=...)
+    loginUrl: 'https://essleman-se.github.io/user-management-UI/magic-link',
+  },
+  
+  // Account Unlock Configuration
+  accountUnlock: {
+    // Page that consumes self-service unlock links (backend appends ?token=...)
+    unlockUrl: 'https://essleman-se.github.io/user-management-UI/unlock-account',
+  },
+  
+  // Rate Limit Configuration
+  rateLimit: {
+    // Wait used after a 429 response without a Retry-After header
+    defaultRetrySeconds: 30,
+  },
+  
+  // CAPTCHA Configuration
+  captcha: {
+    // Registered provider id ('none' disables challenges). Never 'local' here: its checkbox
+    // makes its own token that nothing outside the browser verifies, so any bot passes it.
+    provider: 'none' as string,
+    // Public site key passed to the provider's widget
+    siteKey: '',
+    // Show the challenge after this many failed submissions of a form (0: only when the backend asks)
+    failuresBeforeChallenge: 3,
+    // Request body field the solved token is sent in
+    tokenField: 'captchaToken',
+  },
+  
+  // Email Availability Configuration
+  emailAvailability: {
+    // Tell users during registration that an address is already registered.
+    // Turn off where revealing which addresses have accounts is a risk.
+    enabled: true,
+    // Wait after the last keystroke before looking the address up
+    debounceMs: 500,
+  },
+  
+  // Phone Number Configuration
+  phone: {
+    // ISO country preselected in phone inputs ('' uses the browser's region)
+    defaultCountry: '',
+  },
+  
+  // Phone Verification Configuration
+  phoneVerification: {
+    // Digits in the SMS code
+    codeLength: 6,
+    // Wait before another code can be requested
+    resendCooldownSeconds: 60,
   },
   
   // Environment
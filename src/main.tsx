@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
+import SessionProvider from './session/SessionProvider'
 
 // Get base path from Vite config
 // Backend now includes the base path in email verification links
@@ -12,7 +13,9 @@ const basePath = import.meta.env.BASE_URL || '/user-management-UI';
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter basename={basePath}>
-      <App />
+      <SessionProvider>
+        <App />
+      </SessionProvider>
     </BrowserRouter>
   </StrictMode>,
 )
@@ -0,0 +1,18 @@
+import { createContext } from 'react';
+import type { Session, SessionStatus, SessionUser, StartSessionInput } from './sessionStore';
+
+export interface SessionContextValue {
+  status: SessionStatus;
+  isAuthenticated: boolean;
+  session: Session | null;
+  user: SessionUser | null;
+  token: string | null;
+  /** Normalized role names, e.g. "ADMIN" */
+  roles: string[];
+  permissions: string[];
+  login: (input: StartSessionInput) => void;
+  /** Clears the session in every tab, then revokes it on the backend (never rejects) */
+  logout: () => Promise<void>;
+}
+
+export const SessionContext = createContext<SessionContextValue | null>(null);
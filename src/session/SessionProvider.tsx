@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import { SessionContext, type SessionContextValue } from './SessionContext';
+import { getSession, startSession, subscribeSession } from './sessionStore';
+import { logoutSession } from './logout';
+import { usesCookieAuth } from './tokenStorage';
+import { msUntilRefreshDue, refreshRetryDelayMs, refreshSession } from './tokenRefresh';
+import { loadSessionGrants } from './sessionGrants';
+import { isAbortError } from '../utils/apiClient';
+
+/** setTimeout overflows above 2^31-1 ms (~24.8 days) */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+interface SessionProviderProps {
+  children: ReactNode;
+}
+
+const SessionProvider = ({ children }: SessionProviderProps) => {
+  const session = useSyncExternalStore(subscribeSession, getSession, getSession);
+  const expiresAt = session?.expiresAt ?? null;
+  const email = session?.user.email ?? null;
+
+  // Silently refresh the access token shortly before it expires
+  useEffect(() => {
+    const delay = msUntilRefreshDue(expiresAt);
+    if (expiresAt === null || delay === null) {
+      return;
+    }
+    let cancelled = false;
+    let failures = 0;
+    let timer: number | undefined;
+    const refresh = async () => {
+      // Success changes expiresAt and reschedules through this effect; a 401 ends the session
+      if ((await refreshSession()) || cancelled || getSession()?.expiresAt !== expiresAt) {
+        return;
+      }
+      // Network or server trouble: retry with backoff until the token expires
+      failures += 1;
+      timer = window.setTimeout(() => void refresh(), refreshRetryDelayMs(failures, expiresAt));
+    };
+    timer = window.setTimeout(() => void refresh(), Math.min(delay, MAX_TIMER_DELAY_MS));
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [expiresAt]);
+
+  // Tokens without role claims: ask the backend which roles the user has (once per signed-in user)
+  useEffect(() => {
+    const current = getSession();
+    const canAuthenticate = Boolean(current?.token) || usesCookieAuth();
+    if (!email || !current || !canAuthenticate || current.roles.length > 0) {
+      return;
+    }
+    const controller = new AbortController();
+    loadSessionGrants(controller.signal).catch((error) => {
+      if (!isAbortError(error)) {
+        console.warn('Could not load roles from /api/users/me:', error);
+      }
+    });
+    return () => controller.abort();
+  }, [email]);
+
+  const value = useMemo<SessionContextValue>(
+    () => ({
+      status: session ? 'authenticated' : 'anonymous',
+      isAuthenticated: session !== null,
+      session,
+      user: session?.user ?? null,
+      token: session?.token ?? null,
+      roles: session?.roles ?? [],
+      permissions: session?.permissions ?? [],
+      login: (input) => {
+        startSession(input);
+      },
+      logout: () => logoutSession(),
+    }),
+    [session]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+export default SessionProvider;
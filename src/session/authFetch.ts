@@ -0,0 +1,48 @@
+/**
+ * Authenticated fetch
+ * Drop-in replacement for fetch() that adds the session's bearer token (none in cookie
+ * mode, where the httpOnly cookie authenticates). An expired token is refreshed before
+ * sending; a 401 triggers one refresh and a single retry.
+ */
+
+import { getSession } from './sessionStore';
+import { msUntilRefreshDue, refreshSession } from './tokenRefresh';
+
+function withAuthorization(init: RequestInit, token: string | null): RequestInit {
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return { ...init, headers };
+}
+
+export interface AuthFetchOptions {
+  /** Refresh and resend once on 401 (default: true); off where a 401 means wrong credentials */
+  retryOn401?: boolean;
+}
+
+export const authFetch = async (
+  input: RequestInfo | URL,
+  init: RequestInit = {},
+  { retryOn401 = true }: AuthFetchOptions = {}
+): Promise<Response> => {
+  const session = getSession();
+  let token = session?.token ?? null;
+
+  // Refresh ahead of time instead of sending a token we know is about to be rejected
+  if (session && msUntilRefreshDue(session.expiresAt) === 0) {
+    await refreshSession();
+    token = getSession()?.token ?? null;
+  }
+
+  const response = await fetch(input, withAuthorization(init, token));
+  if (response.status !== 401 || !retryOn401 || !getSession()) {
+    return response;
+  }
+
+  if (!(await refreshSession())) {
+    // refreshSession() has already ended the session if the backend refused
+    return response;
+  }
+  return fetch(input, withAuthorization(init, getSession()?.token ?? null));
+};
@@ -0,0 +1,44 @@
+/**
+ * Idle Activity
+ * Tracks when the user last interacted with the app. The timestamp is shared through
+ * localStorage so activity in any tab keeps every tab's idle timer alive.
+ */
+
+const LAST_ACTIVITY_STORAGE_KEY = 'lastActivityAt';
+
+/** Don't write to storage on every mouse move */
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+let lastLocalActivity = 0;
+let lastWrittenActivity = 0;
+
+/**
+ * Record user activity in this tab
+ * @param force - Write to storage even if activity was recorded moments ago
+ */
+export function recordActivity(force = false): void {
+  const now = Date.now();
+  lastLocalActivity = now;
+  if (!force && now - lastWrittenActivity < ACTIVITY_WRITE_INTERVAL_MS) {
+    return;
+  }
+  lastWrittenActivity = now;
+  try {
+    localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(now));
+  } catch (error) {
+    console.warn('Could not record activity:', error);
+  }
+}
+
+/**
+ * Most recent activity (epoch ms) in this or any other tab
+ */
+export function getLastActivity(): number {
+  let stored = 0;
+  try {
+    stored = Number(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)) || 0;
+  } catch {
+    // Storage unavailable: only this tab's activity counts
+  }
+  return Math.max(lastLocalActivity, stored);
+}
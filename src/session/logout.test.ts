@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { logoutSession } from './logout';
+import { endSession, getSession, startSession } from './sessionStore';
+import { jsonResponse } from '../test/responses';
+
+describe('logoutSession', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    endSession();
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should revoke the tokens on the backend', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(200, {}));
+    startSession({ token: 'access-token', refreshToken: 'refresh-token', email: 'user@example.com' });
+
+    await logoutSession();
+
+    expect(getSession()).toBeNull();
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      '/api/auth/logout',
+      expect.objectContaining({
+        method: 'POST',
+        credentials: 'include',
+        body: JSON.stringify({ refreshToken: 'refresh-token' }),
+        headers: expect.objectContaining({ Authorization: 'Bearer access-token' }),
+      })
+    );
+  });
+
+  it('should clear the local session when the backend is unreachable', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    startSession({ token: 'access-token', email: 'user@example.com' });
+
+    await expect(logoutSession()).resolves.toBeUndefined();
+
+    expect(getSession()).toBeNull();
+    expect(localStorage.getItem('token')).toBeNull();
+  });
+
+  it('should send OAuth2 users to the end-session page returned by the backend', async () => {
+    const assign = vi.fn();
+    vi.stubGlobal('location', { ...window.location, assign });
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      jsonResponse(200, { logoutUrl: 'https://idp.example.com/logout' })
+    );
+    startSession({ token: 'access-token', email: 'user@example.com', authProvider: 'google' });
+
+    await logoutSession();
+
+    expect(assign).toHaveBeenCalledWith(expect.stringMatching(/^https:\/\/idp\.example\.com\/logout\?post_logout_redirect_uri=/));
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Logout
+ * Signs the user out locally right away, then asks the backend to revoke the tokens
+ * and, for OAuth2 users, sends the browser to the provider's end-session page.
+ */
+
+import config from '../config';
+import { apiRequest } from '../utils/apiClient';
+import { endSession, getSession } from './sessionStore';
+
+interface LogoutResponse {
+  logoutUrl?: string;
+  endSessionUrl?: string;
+  end_session_url?: string;
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) {
+    return false;
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Provider end-session URL: the one returned by the backend, else the configured one for the provider
+ */
+function endSessionUrl(provider: string, fromBackend: unknown): string | null {
+  const configured = config.oauth2.endSessionUrls[provider];
+  const base = isHttpUrl(fromBackend) ? fromBackend : isHttpUrl(configured) ? configured : null;
+  if (!base) {
+    return null;
+  }
+  const url = new URL(base);
+  if (!url.searchParams.has('post_logout_redirect_uri')) {
+    url.searchParams.set('post_logout_redirect_uri', config.oauth2.postLogoutRedirectUrl);
+  }
+  return url.toString();
+}
+
+/**
+ * Log out: clear the local session (all tabs), revoke the tokens on the backend and
+ * end the OAuth2 provider session where supported
+ * Never throws; backend or network failures are only logged.
+ */
+export const logoutSession = async (): Promise<void> => {
+  const session = getSession();
+  // Local state goes first so the user is signed out even if the backend never answers
+  endSession('logout');
+  if (!session) {
+    return;
+  }
+
+  let data: LogoutResponse | null = null;
+  try {
+    data = await apiRequest<LogoutResponse | null>(config.session.logoutEndpoint, {
+      method: 'POST',
+      // The session is already gone locally; send its token explicitly
+      auth: false,
+      headers: session.token ? { Authorization: `Bearer ${session.token}` } : {},
+      // httpOnly refresh cookies are revoked (and cleared) by the backend as well
+      credentials: 'include',
+      body: session.refreshToken ? { refreshToken: session.refreshToken } : {},
+      allowEmpty: true,
+    });
+  } catch (error) {
+    console.warn('Server logout failed, local session was cleared anyway:', error);
+  }
+
+  if (session.authProvider) {
+    const url = endSessionUrl(session.authProvider, data?.logoutUrl ?? data?.endSessionUrl ?? data?.end_session_url);
+    if (url) {
+      window.location.assign(url);
+    }
+  }
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { hasRole, permissionsFromClaims, resolvePermissions, rolesFromClaims } from './permissions';
+
+describe('permissions', () => {
+  it('reads roles from Spring authorities, Keycloak realm_access and plain role claims', () => {
+    expect(
+      rolesFromClaims({
+        role: 'user',
+        authorities: ['ROLE_ADMIN', 'users:read'],
+        realm_access: { roles: ['auditor'] },
+      })
+    ).toEqual(['USER', 'ADMIN', 'AUDITOR']);
+  });
+
+  it('reads permissions from non-role authorities and OAuth2 scopes', () => {
+    expect(permissionsFromClaims({ authorities: ['ROLE_ADMIN', 'users:read'], scope: 'openid profile' })).toEqual([
+      'users:read',
+      'openid',
+      'profile',
+    ]);
+  });
+
+  it('grants the permissions configured for each role', () => {
+    expect(resolvePermissions(['admin'])).toContain('admin:access');
+    expect(resolvePermissions(['USER'])).not.toContain('admin:access');
+    expect(hasRole(['ADMIN'], 'ROLE_admin')).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Role & Permission Utilities
+ * Extracts roles/permissions from token claims or user payloads (Spring authorities,
+ * Keycloak realm_access, OAuth2 scopes) and resolves permissions via config.rbac.
+ */
+
+import config from '../config';
+
+/** Canonical role name: upper case, without Spring's "ROLE_" prefix */
+export function normalizeRole(role: string): string {
+  return role.trim().replace(/^ROLE_/i, '').toUpperCase();
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (typeof item === 'string') return [item];
+      // Spring Security serializes GrantedAuthority as { authority: "ROLE_ADMIN" }
+      if (item && typeof item === 'object' && typeof (item as { authority?: unknown }).authority === 'string') {
+        return [(item as { authority: string }).authority];
+      }
+      return [];
+    });
+  }
+  return [];
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Roles found in JWT claims or a user object (`roles`, `role`, `authorities`, `realm_access.roles`)
+ */
+export function rolesFromClaims(claims: Record<string, unknown> | null | undefined): string[] {
+  if (!claims) {
+    return [];
+  }
+  const realmAccess = claims.realm_access as { roles?: unknown } | undefined;
+  const raw = [
+    ...toStringList(claims.roles),
+    ...toStringList(claims.role),
+    // Authorities mix roles ("ROLE_ADMIN") and permissions ("users:read"); only ROLE_ entries are roles
+    ...toStringList(claims.authorities).filter((authority) => /^ROLE_/i.test(authority)),
+    ...toStringList(realmAccess?.roles),
+  ];
+  return unique(raw.map(normalizeRole).filter(Boolean));
+}
+
+/**
+ * Permissions found in JWT claims or a user object (`permissions`, non-role `authorities`, `scope`/`scp`)
+ */
+export function permissionsFromClaims(claims: Record<string, unknown> | null | undefined): string[] {
+  if (!claims) {
+    return [];
+  }
+  const raw = [
+    ...toStringList(claims.permissions),
+    ...toStringList(claims.authorities).filter((authority) => !/^ROLE_/i.test(authority)),
+    ...toStringList(claims.scope),
+    ...toStringList(claims.scp),
+  ];
+  return unique(raw.filter(Boolean));
+}
+
+/**
+ * Effective permissions: explicit ones plus everything granted by the roles in config.rbac
+ */
+export function resolvePermissions(roles: string[], explicitPermissions: string[] = []): string[] {
+  const rolePermissions = config.rbac.rolePermissions;
+  return unique([
+    ...explicitPermissions,
+    ...roles.flatMap((role) => rolePermissions[normalizeRole(role)] ?? []),
+  ]);
+}
+
+export function hasRole(roles: readonly string[], role: string): boolean {
+  return roles.includes(normalizeRole(role));
+}
+
+export function hasPermission(permissions: readonly string[], permission: string): boolean {
+  return permissions.includes(permission);
+}
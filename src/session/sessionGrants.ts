@@ -0,0 +1,21 @@
+/**
+ * Session Grants
+ * Loads the signed-in user's roles/permissions from /api/users/me for tokens that
+ * carry none (opaque tokens, or JWTs without role claims).
+ */
+
+import { apiRequest } from '../utils/apiClient';
+import { permissionsFromClaims, rolesFromClaims } from './permissions';
+import { getSession, updateSessionGrants } from './sessionStore';
+
+export const loadSessionGrants = async (signal?: AbortSignal): Promise<void> => {
+  const me = await apiRequest<Record<string, unknown>>('/api/users/me', { signal });
+  const current = getSession();
+  if (!current) {
+    return;
+  }
+  updateSessionGrants({
+    roles: Array.from(new Set([...current.grants.roles, ...rolesFromClaims(me)])),
+    permissions: Array.from(new Set([...current.grants.permissions, ...permissionsFromClaims(me)])),
+  });
+};
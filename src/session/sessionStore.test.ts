@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+describe('sessionStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    // The store caches the session after the first read; start every test from a fresh module
+    vi.resetModules();
+  });
+
+  it('should rehydrate an existing session from localStorage', async () => {
+    localStorage.setItem('token', 'stored-token');
+    localStorage.setItem('userEmail', 'user@example.com');
+
+    const { getSession } = await import('./sessionStore');
+
+    expect(getSession()).toEqual({
+      token: 'stored-token',
+      refreshToken: null,
+      expiresAt: null,
+      user: { email: 'user@example.com' },
+      roles: [],
+      permissions: [],
+      grants: { roles: [], permissions: [] },
+      authProvider: null,
+    });
+  });
+
+  it('should be anonymous when nothing is stored', async () => {
+    const { getSession } = await import('./sessionStore');
+
+    expect(getSession()).toBeNull();
+  });
+
+  it('should persist a started session and notify subscribers', async () => {
+    const { startSession, getSession, subscribeSession } = await import('./sessionStore');
+    const listener = vi.fn();
+    subscribeSession(listener);
+
+    startSession({ token: 'new-token', email: 'user@example.com' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getSession()?.token).toBe('new-token');
+    expect(localStorage.getItem('token')).toBe('new-token');
+    expect(localStorage.getItem('userEmail')).toBe('user@example.com');
+  });
+
+  it('should clear storage when the session ends', async () => {
+    const { startSession, endSession, getSession } = await import('./sessionStore');
+    startSession({ token: 'new-token', email: 'user@example.com' });
+
+    endSession();
+
+    expect(getSession()).toBeNull();
+    expect(localStorage.getItem('token')).toBeNull();
+    expect(localStorage.getItem('userEmail')).toBeNull();
+  });
+
+  it('should keep a session without "Remember me" in sessionStorage only', async () => {
+    localStorage.setItem('userEmail', 'old@example.com');
+    const { startSession } = await import('./sessionStore');
+
+    startSession({ token: 'new-token', email: 'user@example.com', remember: false });
+
+    expect(sessionStorage.getItem('token')).toBe('new-token');
+    expect(sessionStorage.getItem('userEmail')).toBe('user@example.com');
+    expect(localStorage.getItem('token')).toBeNull();
+    expect(localStorage.getItem('userEmail')).toBeNull();
+    sessionStorage.clear();
+  });
+
+  it('should apply a logout broadcast by another tab', async () => {
+    const { startSession, getSession, getSessionEndReason, subscribeSession } = await import('./sessionStore');
+    startSession({ token: 'new-token', email: 'user@example.com' });
+    const listener = vi.fn();
+    const unsubscribe = subscribeSession(listener);
+    const otherTab = new BroadcastChannel('auth-session');
+
+    otherTab.postMessage({ type: 'session-changed', session: null, endReason: 'logout' });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(getSession()).toBeNull();
+    expect(getSessionEndReason()).toBe('logout');
+    expect(localStorage.getItem('token')).toBeNull();
+    otherTab.close();
+    unsubscribe();
+  });
+
+  it('should broadcast its own changes to other tabs', async () => {
+    const { startSession, subscribeSession } = await import('./sessionStore');
+    const unsubscribe = subscribeSession(vi.fn());
+    const otherTab = new BroadcastChannel('auth-session');
+    const received = new Promise<unknown>((resolve) => {
+      otherTab.onmessage = (event) => resolve(event.data);
+    });
+
+    startSession({ token: 'new-token', email: 'user@example.com' });
+
+    expect(await received).toMatchObject({
+      type: 'session-changed',
+      session: { token: 'new-token', user: { email: 'user@example.com' } },
+    });
+    otherTab.close();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Session Store
+ * Single source of truth for the signed-in user. The session is persisted to the
+ * configured token storage (see tokenStorage.ts) so a page reload can restore it; React code reads it through
+ * SessionProvider / useSession, everything else through the functions below.
+ * While anything is subscribed, changes are broadcast to the app's other tabs
+ * (BroadcastChannel, falling back to storage events) so they stay in sync.
+ */
+
+import { decodeJwtPayload, getTokenExpiry } from '../utils/jwt';
+import { recordActivity } from './idleActivity';
+import { normalizeRole, permissionsFromClaims, resolvePermissions, rolesFromClaims } from './permissions';
+import { storageForSession, storagesToRestore, usesCookieAuth, type KeyValueStorage } from './tokenStorage';
+
+const TOKEN_STORAGE_KEY = 'token';
+const REFRESH_TOKEN_STORAGE_KEY = 'refreshToken';
+const EMAIL_STORAGE_KEY = 'userEmail';
+const GRANTS_STORAGE_KEY = 'userGrants';
+const AUTH_PROVIDER_STORAGE_KEY = 'authProvider';
+const SESSION_STORAGE_KEYS = [
+  TOKEN_STORAGE_KEY,
+  REFRESH_TOKEN_STORAGE_KEY,
+  EMAIL_STORAGE_KEY,
+  GRANTS_STORAGE_KEY,
+  AUTH_PROVIDER_STORAGE_KEY,
+];
+const SYNC_CHANNEL_NAME = 'auth-session';
+
+export interface SessionUser {
+  email: string;
+}
+
+/** Roles/permissions reported outside the token (OAuth2 callback, /api/users/me) */
+export interface SessionGrants {
+  roles: string[];
+  permissions: string[];
+}
+
+export interface Session {
+  token: string | null;
+  refreshToken: string | null;
+  /** Access token expiry (epoch ms) decoded from the JWT; null for opaque tokens */
+  expiresAt: number | null;
+  user: SessionUser;
+  /** Effective roles: token claims plus grants, normalized (e.g. "ADMIN") */
+  roles: string[];
+  /** Effective permissions, including those implied by roles (config.rbac) */
+  permissions: string[];
+  grants: SessionGrants;
+  /** OAuth2 provider used to sign in (e.g. "google"); null for email/password */
+  authProvider: string | null;
+}
+
+export type SessionStatus = 'authenticated' | 'anonymous';
+
+/** Why the last session ended: user action, or the token could not be refreshed */
+export type SessionEndReason = 'logout' | 'expired';
+
+export interface StartSessionInput {
+  token?: string | null;
+  refreshToken?: string | null;
+  email: string;
+  roles?: string[];
+  permissions?: string[];
+  authProvider?: string | null;
+  /** Keep the session after the browser is closed ("Remember me"; default true) */
+  remember?: boolean;
+}
+
+const NO_GRANTS: SessionGrants = { roles: [], permissions: [] };
+
+type SessionListener = () => void;
+
+/** Posted to the other tabs whenever this tab's session changes */
+interface SessionSyncMessage {
+  type: 'session-changed';
+  session: Session | null;
+  endReason: SessionEndReason | null;
+  remember: boolean;
+}
+
+/** `undefined` until the first read, so storage is only touched once it is needed. */
+let currentSession: Session | null | undefined;
+let lastEndReason: SessionEndReason | null = null;
+/** Storage the current session lives in; null until a session is started or restored */
+let activeStorage: KeyValueStorage | null = null;
+let rememberSession = true;
+const listeners = new Set<SessionListener>();
+let syncChannel: BroadcastChannel | null = null;
+
+function nonEmpty(value: string | null | undefined): string | null {
+  return value && value.trim() !== '' ? value : null;
+}
+
+function buildSession(
+  token: string | null,
+  refreshToken: string | null,
+  email: string,
+  grants: SessionGrants = NO_GRANTS,
+  authProvider: string | null = null
+): Session {
+  const claims = token ? decodeJwtPayload(token) : null;
+  const roles = Array.from(new Set([...rolesFromClaims(claims), ...grants.roles.map(normalizeRole)]));
+  // Cookie mode: httpOnly cookies authenticate requests, so never keep a script-readable copy of the tokens
+  const keepTokens = !usesCookieAuth();
+  return {
+    token: keepTokens ? token : null,
+    refreshToken: keepTokens ? refreshToken : null,
+    expiresAt: token ? getTokenExpiry(token) : null,
+    user: { email },
+    roles,
+    permissions: resolvePermissions(roles, [...permissionsFromClaims(claims), ...grants.permissions]),
+    grants,
+    authProvider,
+  };
+}
+
+function readStoredGrants(storage: KeyValueStorage): SessionGrants {
+  try {
+    const parsed: unknown = JSON.parse(storage.getItem(GRANTS_STORAGE_KEY) || 'null');
+    if (!parsed || typeof parsed !== 'object') {
+      return NO_GRANTS;
+    }
+    const { roles, permissions } = parsed as Partial<SessionGrants>;
+    return {
+      roles: Array.isArray(roles) ? roles.filter((r): r is string => typeof r === 'string') : [],
+      permissions: Array.isArray(permissions) ? permissions.filter((p): p is string => typeof p === 'string') : [],
+    };
+  } catch {
+    return NO_GRANTS;
+  }
+}
+
+function readStoredSession(): Session | null {
+  try {
+    for (const storage of storagesToRestore()) {
+      const email = storage.getItem(EMAIL_STORAGE_KEY);
+      if (!email) {
+        continue;
+      }
+      activeStorage = storage;
+      rememberSession = storage === localStorage;
+      return buildSession(
+        nonEmpty(storage.getItem(TOKEN_STORAGE_KEY)),
+        nonEmpty(storage.getItem(REFRESH_TOKEN_STORAGE_KEY)),
+        email,
+        readStoredGrants(storage),
+        nonEmpty(storage.getItem(AUTH_PROVIDER_STORAGE_KEY))
+      );
+    }
+    return null;
+  } catch (error) {
+    console.warn('Could not read stored session:', error);
+    return null;
+  }
+}
+
+function writeSessionTo(storage: KeyValueStorage, session: Session | null): void {
+  if (session?.token) {
+    storage.setItem(TOKEN_STORAGE_KEY, session.token);
+  } else {
+    storage.removeItem(TOKEN_STORAGE_KEY);
+  }
+  if (session?.refreshToken) {
+    storage.setItem(REFRESH_TOKEN_STORAGE_KEY, session.refreshToken);
+  } else {
+    storage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+  }
+  if (session) {
+    storage.setItem(EMAIL_STORAGE_KEY, session.user.email);
+  } else {
+    storage.removeItem(EMAIL_STORAGE_KEY);
+  }
+  if (session && (session.grants.roles.length > 0 || session.grants.permissions.length > 0)) {
+    storage.setItem(GRANTS_STORAGE_KEY, JSON.stringify(session.grants));
+  } else {
+    storage.removeItem(GRANTS_STORAGE_KEY);
+  }
+  if (session?.authProvider) {
+    storage.setItem(AUTH_PROVIDER_STORAGE_KEY, session.authProvider);
+  } else {
+    storage.removeItem(AUTH_PROVIDER_STORAGE_KEY);
+  }
+}
+
+/** Write the session to its storage and remove any copy left in the others */
+function writeStoredSession(session: Session | null): void {
+  try {
+    const target = session ? (activeStorage ??= storageForSession(rememberSession)) : null;
+    for (const storage of storagesToRestore()) {
+      writeSessionTo(storage, storage === target ? session : null);
+    }
+  } catch (error) {
+    console.warn('Could not persist session:', error);
+  }
+}
+
+/** Where the next write goes; re-selected whenever a session starts */
+function selectStorage(remember: boolean): void {
+  rememberSession = remember;
+  activeStorage = storageForSession(remember);
+}
+
+function setSession(session: Session | null): void {
+  currentSession = session;
+  listeners.forEach((listener) => listener());
+}
+
+/** Store, persist, notify and tell the other tabs */
+function commitSession(session: Session | null): void {
+  writeStoredSession(session);
+  setSession(session);
+  const message: SessionSyncMessage = {
+    type: 'session-changed',
+    session,
+    endReason: lastEndReason,
+    remember: rememberSession,
+  };
+  try {
+    syncChannel?.postMessage(message);
+  } catch (error) {
+    console.warn('Could not broadcast session change:', error);
+  }
+}
+
+function handleSyncMessage(event: MessageEvent<SessionSyncMessage>): void {
+  if (event.data?.type !== 'session-changed') {
+    return;
+  }
+  lastEndReason = event.data.endReason;
+  if (event.data.session) {
+    selectStorage(event.data.remember);
+  }
+  // Persist as well: storage may be per tab (sessionStorage), so the sender's write isn't visible here
+  writeStoredSession(event.data.session);
+  setSession(event.data.session);
+}
+
+/** Fallback without BroadcastChannel: another tab wrote one of the session keys to localStorage */
+function handleStorageEvent(event: StorageEvent): void {
+  if (event.storageArea !== localStorage || (event.key !== null && !SESSION_STORAGE_KEYS.includes(event.key))) {
+    return;
+  }
+  const session = readStoredSession();
+  if (!session && getSession()) {
+    lastEndReason = 'logout';
+  }
+  setSession(session);
+}
+
+function startCrossTabSync(): void {
+  if (typeof BroadcastChannel !== 'undefined') {
+    syncChannel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    syncChannel.onmessage = handleSyncMessage;
+  } else {
+    window.addEventListener('storage', handleStorageEvent);
+  }
+}
+
+function stopCrossTabSync(): void {
+  if (syncChannel) {
+    syncChannel.close();
+    syncChannel = null;
+  } else {
+    window.removeEventListener('storage', handleStorageEvent);
+  }
+}
+
+/**
+ * Current session, rehydrated from storage on first access
+ */
+export const getSession = (): Session | null => {
+  if (currentSession === undefined) {
+    currentSession = readStoredSession();
+  }
+  return currentSession;
+};
+
+/**
+ * Adopt a session another tab has already written to shared storage (localStorage),
+ * without waiting for its broadcast; per-tab storage only learns of it from the broadcast
+ * @returns The current session
+ */
+export const reloadSharedSession = (): Session | null => {
+  const current = getSession();
+  if (!current || activeStorage !== localStorage) {
+    return current;
+  }
+  const stored = readStoredSession();
+  if (stored && stored.user.email === current.user.email && stored.token !== current.token) {
+    setSession(stored);
+  }
+  return getSession();
+};
+
+/**
+ * Subscribe to session changes (compatible with React's useSyncExternalStore)
+ * Changes made in other tabs are only received while there is at least one subscriber.
+ * @returns Unsubscribe function
+ */
+export const subscribeSession = (listener: SessionListener): (() => void) => {
+  if (listeners.size === 0) {
+    startCrossTabSync();
+  }
+  listeners.add(listener);
+  return () => {
+    if (listeners.delete(listener) && listeners.size === 0) {
+      stopCrossTabSync();
+    }
+  };
+};
+
+/**
+ * Establish a session after a successful login (password or OAuth2)
+ */
+export const startSession = ({
+  token,
+  refreshToken,
+  email,
+  roles = [],
+  permissions = [],
+  authProvider = null,
+  remember = true,
+}: StartSessionInput): Session => {
+  selectStorage(remember);
+  const session = buildSession(nonEmpty(token), nonEmpty(refreshToken), email, { roles, permissions }, nonEmpty(authProvider));
+  lastEndReason = null;
+  // A new session starts with a full idle timeout, whatever an earlier session left in storage
+  recordActivity(true);
+  commitSession(session);
+  return session;
+};
+
+/**
+ * Replace the tokens of the current session after a refresh
+ * A refresh response without a new refresh token keeps the existing one (rotation is optional).
+ */
+export const updateSessionTokens = (token: string | null, refreshToken?: string | null): Session | null => {
+  const current = getSession();
+  if (!current) {
+    return null;
+  }
+  const session = buildSession(
+    token,
+    nonEmpty(refreshToken) ?? current.refreshToken,
+    current.user.email,
+    current.grants,
+    current.authProvider
+  );
+  commitSession(session);
+  return session;
+};
+
+/**
+ * Record roles/permissions reported by the backend for the current user (e.g. /api/users/me)
+ */
+export const updateSessionGrants = (grants: SessionGrants): Session | null => {
+  const current = getSession();
+  if (!current) {
+    return null;
+  }
+  const session = buildSession(current.token, current.refreshToken, current.user.email, grants, current.authProvider);
+  commitSession(session);
+  return session;
+};
+
+/**
+ * End the current session and forget everything stored for it
+ */
+export const endSession = (reason: SessionEndReason = 'logout'): void => {
+  lastEndReason = reason;
+  commitSession(null);
+};
+
+/**
+ * Why the most recent session ended (null while signed in or if none has ended yet)
+ */
+export const getSessionEndReason = (): SessionEndReason | null => lastEndReason;
+
+/**
+ * True when the current session was started (or restored) with "Remember me", so it outlives the browser
+ */
+export const isSessionRemembered = (): boolean => getSession() !== null && rememberSession;
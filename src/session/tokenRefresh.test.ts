@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { refreshRetryDelayMs, refreshSession } from './tokenRefresh';
+import { endSession, getSession, startSession } from './sessionStore';
+import { jsonResponse } from '../test/responses';
+
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+const makeJwt = (claims: object) => `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}.signature`;
+
+describe('refreshSession', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    endSession();
+    globalThis.fetch = vi.fn() as typeof fetch;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const startExpiringSession = (secondsLeft: number) =>
+    startSession({
+      token: makeJwt({ sub: 'user@example.com', exp: Math.floor(Date.now() / 1000) + secondsLeft }),
+      refreshToken: 'refresh-token',
+      email: 'user@example.com',
+    });
+
+  it('should store the new tokens', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      jsonResponse(200, { token: 'new-token', refreshToken: 'new-refresh-token' })
+    );
+    startExpiringSession(60);
+
+    expect(await refreshSession()).toBe(true);
+    expect(getSession()).toMatchObject({ token: 'new-token', refreshToken: 'new-refresh-token' });
+  });
+
+  it('should end the session when the refresh token is refused', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(401, { message: 'Expired' }));
+    startExpiringSession(60);
+
+    expect(await refreshSession()).toBe(false);
+    expect(getSession()).toBeNull();
+  });
+
+  it('should keep a valid session when the backend is unreachable or failing', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    fetchMock.mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }));
+    startExpiringSession(60);
+
+    expect(await refreshSession()).toBe(false);
+    expect(await refreshSession()).toBe(false);
+    expect(getSession()).not.toBeNull();
+  });
+
+  it('should end an expired session when the refresh fails', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }));
+    startExpiringSession(-1);
+
+    expect(await refreshSession()).toBe(false);
+    expect(getSession()).toBeNull();
+  });
+
+  it('should let only one tab send a rotating refresh token', async () => {
+    // Web Locks stand-in: one holder at a time, in request order
+    let queue: Promise<unknown> = Promise.resolve();
+    const locks = {
+      request: (_name: string, callback: () => Promise<unknown>) => {
+        const run = queue.then(callback);
+        queue = run.catch(() => {});
+        return run;
+      },
+    };
+    Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+    const rotatedToken = makeJwt({ sub: 'user@example.com', exp: Math.floor(Date.now() / 1000) + 3600 });
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    // The backend accepts each refresh token once
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) =>
+      JSON.parse(String(init.body)).refreshToken === 'refresh-token'
+        ? jsonResponse(200, { token: rotatedToken, refreshToken: 'rotated-refresh-token' })
+        : jsonResponse(401, { message: 'Refresh token already used' })
+    );
+
+    try {
+      vi.resetModules();
+      const tabA = { ...(await import('./tokenRefresh')), ...(await import('./sessionStore')) };
+      vi.resetModules();
+      const tabB = { ...(await import('./tokenRefresh')), ...(await import('./sessionStore')) };
+      tabA.startSession({
+        token: makeJwt({ sub: 'user@example.com', exp: Math.floor(Date.now() / 1000) + 60 }),
+        refreshToken: 'refresh-token',
+        email: 'user@example.com',
+      });
+      expect(tabB.getSession()?.refreshToken).toBe('refresh-token');
+
+      expect(await Promise.all([tabA.refreshSession(), tabB.refreshSession()])).toEqual([true, true]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(tabA.getSession()).toMatchObject({ token: rotatedToken, refreshToken: 'rotated-refresh-token' });
+      expect(tabB.getSession()).toMatchObject({ token: rotatedToken, refreshToken: 'rotated-refresh-token' });
+    } finally {
+      Reflect.deleteProperty(navigator, 'locks');
+    }
+  });
+
+  it('should back off between retries, up to the expiry of the token', () => {
+    const inAnHour = Date.now() + 3_600_000;
+
+    expect(refreshRetryDelayMs(1, inAnHour)).toBe(5_000);
+    expect(refreshRetryDelayMs(2, inAnHour)).toBe(10_000);
+    expect(refreshRetryDelayMs(10, inAnHour)).toBe(60_000);
+    expect(refreshRetryDelayMs(3, Date.now() + 7_000)).toBeLessThanOrEqual(7_000);
+    expect(refreshRetryDelayMs(1, Date.now() - 1_000)).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Token Refresh
+ * Exchanges the refresh token (or the backend's httpOnly refresh cookie) for a new
+ * access token. Concurrent callers share a single in-flight request, and tabs take turns
+ * (Web Locks) so a rotated refresh token is only ever sent once. Only a 401 from the
+ * refresh endpoint ends the session; network and server trouble leave it to be retried
+ * until the access token expires.
+ */
+
+import config from '../config';
+import { getApiUrl } from '../utils/api';
+import { endSession, getSession, reloadSharedSession, updateSessionTokens, type Session } from './sessionStore';
+import { csrfHeaders, usesCookieAuth } from './tokenStorage';
+
+let inFlightRefresh: Promise<boolean> | null = null;
+
+/** Web Lock held by the one tab refreshing at a time */
+const REFRESH_LOCK_NAME = 'token-refresh';
+
+/** First retry after a failed refresh; doubles with every further failure */
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 60_000;
+
+/** Backend unreachable or failing: keep the session unless the access token is already unusable */
+function keepUnlessExpired(expiresAt: number | null): false {
+  if (expiresAt !== null && expiresAt <= Date.now()) {
+    endSession('expired');
+  }
+  return false;
+}
+
+async function requestTokenRefresh(): Promise<boolean> {
+  const session = getSession();
+  if (!session) {
+    return false;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(getApiUrl(config.session.refreshEndpoint), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...csrfHeaders('POST'),
+      },
+      // Cookie-based refresh tokens are sent automatically with credentials
+      credentials: 'include',
+      body: JSON.stringify(session.refreshToken ? { refreshToken: session.refreshToken } : {}),
+    });
+  } catch (error) {
+    console.warn('Token refresh request failed:', error);
+    return keepUnlessExpired(session.expiresAt);
+  }
+
+  if (!response.ok && response.status !== 401) {
+    // 5xx, 429...: the refresh token itself was not refused
+    console.warn('Token refresh failed, will retry. Status:', response.status);
+    return keepUnlessExpired(session.expiresAt);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  const data: Record<string, unknown> | null =
+    response.ok && contentType.includes('application/json')
+      ? await response.json().catch(() => null)
+      : null;
+  const token = data?.token ?? data?.accessToken ?? data?.access_token;
+  const hasToken = typeof token === 'string' && token.trim() !== '';
+
+  // Cookie mode: the backend renews its httpOnly cookies, a body with a token is optional
+  if (!hasToken && !(usesCookieAuth() && response.ok)) {
+    // Another tab may have refreshed (and rotated the refresh token) while this request was in flight
+    const current = getSession();
+    if (current?.token && current.token !== session.token) {
+      return true;
+    }
+    console.warn('Token refresh rejected, ending session. Status:', response.status);
+    endSession('expired');
+    return false;
+  }
+
+  const refreshToken = data?.refreshToken ?? data?.refresh_token;
+  updateSessionTokens(hasToken ? (token as string) : null, typeof refreshToken === 'string' ? refreshToken : null);
+  return true;
+}
+
+/** Run the refresh while holding the cross-tab lock (directly where Web Locks are unavailable) */
+async function withRefreshLock(refresh: () => Promise<boolean>): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return refresh();
+  }
+  let refreshed = false;
+  await navigator.locks.request(REFRESH_LOCK_NAME, async () => {
+    refreshed = await refresh();
+  });
+  return refreshed;
+}
+
+/**
+ * Refresh, unless the tab that held the lock before has already done it
+ * @param before - Session when the refresh was asked for, before waiting for the lock
+ */
+async function refreshUnlessRefreshedElsewhere(before: Session | null): Promise<boolean> {
+  // Its refresh may have rotated the refresh token this tab still has
+  const current = reloadSharedSession();
+  if (before?.token && current?.token && current.token !== before.token) {
+    return true;
+  }
+  return requestTokenRefresh();
+}
+
+/**
+ * Refresh the access token of the current session
+ * Ends the session (reason 'expired') when the backend refuses the refresh (401), or the
+ * refresh fails once the access token has expired.
+ * @returns Whether the session was refreshed (the new token is on getSession())
+ */
+export const refreshSession = (): Promise<boolean> => {
+  if (!inFlightRefresh) {
+    const before = getSession();
+    inFlightRefresh = withRefreshLock(() => refreshUnlessRefreshedElsewhere(before)).finally(() => {
+      inFlightRefresh = null;
+    });
+  }
+  return inFlightRefresh;
+};
+
+/**
+ * Delay before retrying a refresh that failed without being refused
+ * @param attempt - Number of failed attempts so far (1 for the first retry)
+ * @param expiresAt - Expiry of the access token; the last retry happens no later than that
+ */
+export const refreshRetryDelayMs = (attempt: number, expiresAt: number): number =>
+  Math.max(
+    0,
+    Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS, expiresAt - Date.now())
+  );
+
+/**
+ * Milliseconds until the access token should be refreshed (honours the configured leeway)
+ * @returns null when the token has no known expiry
+ */
+export const msUntilRefreshDue = (expiresAt: number | null): number | null => {
+  if (expiresAt === null) {
+    return null;
+  }
+  return Math.max(0, expiresAt - config.session.refreshLeewaySeconds * 1000 - Date.now());
+};
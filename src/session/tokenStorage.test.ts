@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import config from '../config';
+import { csrfHeaders, storageForSession, usesCookieAuth } from './tokenStorage';
+
+describe('tokenStorage', () => {
+  const configuredMode = config.session.tokenStorage;
+
+  afterEach(() => {
+    config.session.tokenStorage = configuredMode;
+    document.cookie = 'XSRF-TOKEN=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+  });
+
+  it('should use localStorage only when the user asks to be remembered', () => {
+    config.session.tokenStorage = 'local';
+
+    expect(storageForSession(true)).toBe(localStorage);
+    expect(storageForSession(false)).toBe(sessionStorage);
+  });
+
+  it('should never use web storage in memory mode', () => {
+    config.session.tokenStorage = 'memory';
+
+    const storage = storageForSession(true);
+    storage.setItem('token', 'secret');
+
+    expect(storage).not.toBe(localStorage);
+    expect(localStorage.getItem('token')).toBeNull();
+    storage.removeItem('token');
+  });
+
+  it('should send the CSRF cookie as a header for state-changing requests in cookie mode', () => {
+    config.session.tokenStorage = 'cookie';
+    document.cookie = 'XSRF-TOKEN=csrf%2Dvalue';
+
+    expect(usesCookieAuth()).toBe(true);
+    expect(csrfHeaders('POST')).toEqual({ 'X-XSRF-TOKEN': 'csrf-value' });
+    expect(csrfHeaders('GET')).toEqual({});
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Token Storage
+ * Where the session store persists the session, selected by config.session.tokenStorage.
+ * In 'cookie' mode the backend keeps the tokens in httpOnly cookies: only the non-secret
+ * part of the session (email, roles) is stored and requests carry a CSRF header instead.
+ */
+
+import config from '../config';
+
+export type TokenStorageMode = typeof config.session.tokenStorage;
+
+/** The part of the Web Storage API the session store uses */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+const memoryItems = new Map<string, string>();
+
+const memoryStorage: KeyValueStorage = {
+  getItem: (key) => memoryItems.get(key) ?? null,
+  setItem: (key, value) => {
+    memoryItems.set(key, value);
+  },
+  removeItem: (key) => {
+    memoryItems.delete(key);
+  },
+};
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export const getTokenStorageMode = (): TokenStorageMode => config.session.tokenStorage;
+
+/**
+ * True when the backend authenticates requests with httpOnly cookies instead of a bearer token
+ */
+export const usesCookieAuth = (): boolean => getTokenStorageMode() === 'cookie';
+
+/**
+ * Whether "Remember me" changes anything in the configured mode
+ */
+export const supportsRememberMe = (): boolean => {
+  const mode = getTokenStorageMode();
+  return mode === 'local' || mode === 'cookie';
+};
+
+/**
+ * Storage for a new session
+ * @param remember - Keep the session after the browser is closed (where the mode allows it)
+ */
+export function storageForSession(remember: boolean): KeyValueStorage {
+  switch (getTokenStorageMode()) {
+    case 'memory':
+      return memoryStorage;
+    case 'session':
+      return sessionStorage;
+    default:
+      return remember ? localStorage : sessionStorage;
+  }
+}
+
+/**
+ * Every storage an earlier session may have been written to, most persistent first
+ */
+export function storagesToRestore(): KeyValueStorage[] {
+  switch (getTokenStorageMode()) {
+    case 'memory':
+      return [memoryStorage];
+    case 'session':
+      return [sessionStorage];
+    default:
+      return [localStorage, sessionStorage];
+  }
+}
+
+function readCookie(name: string): string | null {
+  const prefix = `${name}=`;
+  const match = document.cookie.split('; ').find((cookie) => cookie.startsWith(prefix));
+  return match ? decodeURIComponent(match.slice(prefix.length)) : null;
+}
+
+/**
+ * CSRF header for state-changing requests in 'cookie' mode (empty otherwise)
+ */
+export const csrfHeaders = (method: string): Record<string, string> => {
+  if (!usesCookieAuth() || SAFE_METHODS.has(method.toUpperCase())) {
+    return {};
+  }
+  const token = readCookie(config.session.csrf.cookieName);
+  return token ? { [config.session.csrf.headerName]: token } : {};
+};
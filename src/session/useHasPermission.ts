@@ -0,0 +1,10 @@
+import { hasPermission } from './permissions';
+import { useSession } from './useSession';
+
+/**
+ * Whether the signed-in user holds a permission (explicit or implied by a role)
+ */
+export const useHasPermission = (permission: string): boolean => {
+  const { permissions } = useSession();
+  return hasPermission(permissions, permission);
+};
@@ -0,0 +1,10 @@
+import { hasRole } from './permissions';
+import { useSession } from './useSession';
+
+/**
+ * Whether the signed-in user has a role ("admin", "ROLE_ADMIN" and "ADMIN" are equivalent)
+ */
+export const useHasRole = (role: string): boolean => {
+  const { roles } = useSession();
+  return hasRole(roles, role);
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { isIdleTimeoutEnabled, useIdleTimer } from './useIdleTimer';
+import { endSession, startSession } from './sessionStore';
+
+describe('useIdleTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should warn before the timeout and call onIdle once it passes', () => {
+    const onIdle = vi.fn();
+    const { result } = renderHook(() => useIdleTimer({ timeoutMs: 10_000, warningMs: 3_000, onIdle }));
+
+    act(() => {
+      vi.advanceTimersByTime(8_000);
+    });
+    expect(result.current.isWarning).toBe(true);
+    expect(result.current.secondsRemaining).toBe(2);
+
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restart the timer when the user chooses to stay signed in', () => {
+    const onIdle = vi.fn();
+    const { result } = renderHook(() => useIdleTimer({ timeoutMs: 10_000, warningMs: 3_000, onIdle }));
+
+    act(() => {
+      vi.advanceTimersByTime(8_000);
+    });
+    act(() => {
+      result.current.stayActive();
+    });
+    expect(result.current.isWarning).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(8_000);
+    });
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('should stay alive while another tab records activity', () => {
+    const onIdle = vi.fn();
+    renderHook(() => useIdleTimer({ timeoutMs: 10_000, warningMs: 3_000, onIdle }));
+
+    act(() => {
+      vi.advanceTimersByTime(6_000);
+      localStorage.setItem('lastActivityAt', String(Date.now()));
+      vi.advanceTimersByTime(6_000);
+    });
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('should not reset the shared clock when a tab mounts or reloads', () => {
+    const onIdle = vi.fn();
+    // Well past activity recorded by earlier tests in this module
+    vi.setSystemTime(Date.now() + 60_000);
+    localStorage.setItem('lastActivityAt', String(Date.now() - 8_000));
+    renderHook(() => useIdleTimer({ timeoutMs: 10_000, warningMs: 3_000, onIdle }));
+
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restart the clock when a session starts', () => {
+    localStorage.setItem('lastActivityAt', '1');
+
+    startSession({ token: 'new-token', email: 'user@example.com' });
+
+    expect(Number(localStorage.getItem('lastActivityAt'))).toBe(Date.now());
+    endSession();
+  });
+
+  it('should leave a remembered session restored after a browser restart signed in', async () => {
+    // Left over from before the restart, well past the timeout
+    localStorage.setItem('lastActivityAt', String(Date.now() - 24 * 60 * 60 * 1000));
+    localStorage.setItem('token', 'stored-token');
+    localStorage.setItem('userEmail', 'user@example.com');
+    vi.resetModules();
+    const { default: freshConfig } = await import('../config');
+    const { isIdleTimeoutEnabled: freshIsIdleTimeoutEnabled } = await import('./useIdleTimer');
+    const { getSession } = await import('./sessionStore');
+
+    expect(getSession()?.user.email).toBe('user@example.com');
+    expect(freshIsIdleTimeoutEnabled()).toBe(false);
+
+    freshConfig.idleTimeout.includeRememberedSessions = true;
+    expect(freshIsIdleTimeoutEnabled()).toBe(true);
+    freshConfig.idleTimeout.includeRememberedSessions = false;
+  });
+
+  it('should time out sessions started without "Remember me"', () => {
+    startSession({ token: 'new-token', email: 'user@example.com', remember: false });
+
+    expect(isIdleTimeoutEnabled()).toBe(true);
+    endSession();
+  });
+});
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import config from '../config';
+import { getLastActivity, recordActivity } from './idleActivity';
+import { isSessionRemembered } from './sessionStore';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+
+const CHECK_INTERVAL_MS = 1000;
+
+interface IdleTimerOptions {
+  /** Inactivity (in any tab) after which onIdle is called */
+  timeoutMs: number;
+  /** How long before the timeout the warning starts */
+  warningMs: number;
+  onIdle: () => void;
+}
+
+interface IdleTimerState {
+  /** True while the countdown before onIdle is running */
+  isWarning: boolean;
+  secondsRemaining: number;
+  /** Dismiss the warning and restart the timer (in every tab) */
+  stayActive: () => void;
+}
+
+/**
+ * Whether the current session is signed out when idle (see config.idleTimeout)
+ */
+export function isIdleTimeoutEnabled(): boolean {
+  if (config.idleTimeout.timeoutMinutes <= 0) {
+    return false;
+  }
+  return config.idleTimeout.includeRememberedSessions || !isSessionRemembered();
+}
+
+/**
+ * Inactivity timer shared by all tabs of the app; start it only while signed in
+ */
+export const useIdleTimer = ({ timeoutMs, warningMs, onIdle }: IdleTimerOptions): IdleTimerState => {
+  const [secondsRemaining, setSecondsRemaining] = useState<number | null>(null);
+  const isWarningRef = useRef(false);
+  const onIdleRef = useRef(onIdle);
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  useEffect(() => {
+    // The clock is shared with the other tabs and reset by startSession; mounting (a reload,
+    // a new tab) must not reset it. Only a session from before activity tracking has none.
+    if (getLastActivity() === 0) {
+      recordActivity(true);
+    }
+
+    const handleActivity = () => {
+      // Once the warning is shown, only "Stay signed in" (or activity in another tab) keeps the session
+      if (!isWarningRef.current) {
+        recordActivity();
+      }
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    let idleHandled = false;
+    const interval = window.setInterval(() => {
+      const remainingMs = getLastActivity() + timeoutMs - Date.now();
+      if (remainingMs <= 0) {
+        if (!idleHandled) {
+          idleHandled = true;
+          onIdleRef.current();
+        }
+        return;
+      }
+      isWarningRef.current = remainingMs <= warningMs;
+      setSecondsRemaining(isWarningRef.current ? Math.ceil(remainingMs / 1000) : null);
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      isWarningRef.current = false;
+    };
+  }, [timeoutMs, warningMs]);
+
+  const stayActive = useCallback(() => {
+    isWarningRef.current = false;
+    recordActivity(true);
+    setSecondsRemaining(null);
+  }, []);
+
+  return { isWarning: secondsRemaining !== null, secondsRemaining: secondsRemaining ?? 0, stayActive };
+};
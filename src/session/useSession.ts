@@ -0,0 +1,13 @@
+import { useContext } from 'react';
+import { SessionContext, type SessionContextValue } from './SessionContext';
+
+/**
+ * Access the current session (user, token, status) and the login/logout actions
+ */
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
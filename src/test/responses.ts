@@ -0,0 +1,20 @@
+/**
+ * Fetch response fixtures shared by the tests
+ */
+
+/**
+ * Minimal JSON Response for mocked fetch calls
+ */
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers({ 'content-type': 'application/json', ...headers }),
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+/**
+ * JSON Response for fetch mocks typed as typeof fetch
+ */
+export const fetchJsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
@@ -0,0 +1,43 @@
+/**
+ * Self-Service Account Unlock
+ * Emails an unlock link to a locked account and redeems the link's token.
+ */
+
+import config from '../config';
+import { apiRequest } from './apiClient';
+import { frontendContextHeaders } from './frontendRequestHints';
+
+/**
+ * Email an unlock link
+ * @param email - Already normalized address
+ * @returns Message to show (does not reveal whether the account exists or is locked)
+ */
+export const requestAccountUnlock = async (email: string): Promise<string> => {
+  const data = await apiRequest<{ message?: string } | null>('/api/auth/unlock', {
+    method: 'POST',
+    auth: false,
+    headers: frontendContextHeaders(),
+    body: { email, redirectUrl: config.accountUnlock.unlockUrl },
+    allowEmpty: true,
+  });
+  return typeof data?.message === 'string' && data.message
+    ? data.message
+    : 'If this account is locked, we sent an email with a link to unlock it.';
+};
+
+/**
+ * Unlock the account with the token from an unlock link
+ * @returns Message to show
+ * @throws ApiError - invalid, expired or already used link
+ */
+export const unlockAccount = async (token: string): Promise<string> => {
+  const data = await apiRequest<{ message?: string } | null>('/api/auth/unlock/verify', {
+    method: 'POST',
+    auth: false,
+    body: { token },
+    allowEmpty: true,
+  });
+  return typeof data?.message === 'string' && data.message
+    ? data.message
+    : 'Your account has been unlocked. You can log in now.';
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { apiRequest, ApiError } from './apiClient';
+import { endSession, getSession, startSession } from '../session/sessionStore';
+import { jsonResponse } from '../test/responses';
+
+describe('apiRequest', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    endSession();
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should send JSON and return the parsed response', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const data = await apiRequest<{ ok: boolean }>('/api/things', {
+      method: 'POST',
+      body: { name: 'thing' },
+      query: { page: 2, filter: undefined },
+      auth: false,
+    });
+
+    expect(data).toEqual({ ok: true });
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      '/api/things?page=2',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ name: 'thing' }),
+        headers: expect.objectContaining({ 'Content-Type': 'application/json' }),
+      })
+    );
+  });
+
+  it('should normalize error bodies into an ApiError with field errors', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      jsonResponse(400, {
+        code: 'VALIDATION_FAILED',
+        message: 'Validation failed',
+        errors: [{ field: 'email', defaultMessage: 'must be a well-formed email address' }],
+      })
+    );
+
+    const error = (await apiRequest('/api/auth/register', { method: 'POST', body: {}, auth: false }).catch(
+      (e: unknown) => e
+    )) as ApiError;
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(400);
+    expect(error.code).toBe('VALIDATION_FAILED');
+    expect(error.fieldErrors).toEqual({ email: ['must be a well-formed email address'] });
+    expect(error.message).toContain('Validation failed');
+  });
+
+  it('should read the retry delay from Retry-After or a lockout end time in the body', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }, { 'retry-after': '42' }));
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(423, { message: 'Locked', lockedUntil: new Date(Date.now() + 90_000).toISOString() })
+    );
+
+    const throttled = (await apiRequest('/api/auth/login', { auth: false }).catch((e: unknown) => e)) as ApiError;
+    const locked = (await apiRequest('/api/auth/login', { auth: false }).catch((e: unknown) => e)) as ApiError;
+
+    expect(throttled.retryAfterSeconds).toBe(42);
+    expect(locked.retryAfterSeconds).toBeGreaterThan(85);
+    expect(locked.retryAfterSeconds).toBeLessThanOrEqual(90);
+  });
+
+  it('should add the bearer token and end the session when a 401 cannot be refreshed', async () => {
+    startSession({ token: 'expired-token', email: 'user@example.com' });
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(401, { message: 'Token expired' }))
+      // Refresh endpoint refuses
+      .mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid refresh token' }));
+
+    await expect(apiRequest('/api/users/me')).rejects.toMatchObject({ status: 401 });
+
+    const firstHeaders = fetchMock.mock.calls[0][1].headers as Headers;
+    expect(firstHeaders.get('Authorization')).toBe('Bearer expired-token');
+    expect(getSession()).toBeNull();
+  });
+
+  it('should keep the session when a 401 only rejects the submitted code or password', async () => {
+    startSession({ token: 'valid-token', email: 'user@example.com' });
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid password' }));
+
+    await expect(
+      apiRequest('/api/users/me/2fa/disable', { method: 'POST', body: { password: 'wrong' }, keepSessionOn401: true })
+    ).rejects.toMatchObject({ status: 401, message: 'Invalid password' });
+
+    // No refresh-and-resend: a second wrong attempt would count against the user
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getSession()?.token).toBe('valid-token');
+  });
+
+  it('should fail with a timeout error when the server does not answer in time', async () => {
+    vi.useFakeTimers();
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+    );
+
+    const request = apiRequest('/api/slow', { auth: false, timeoutMs: 1000 }).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(request).resolves.toMatchObject({ status: 0, code: 'timeout' });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * API Client
+ * Shared JSON client for all backend calls: builds URLs with getApiUrl, adds the
+ * session's bearer token, enforces JSON responses, applies timeouts and normalizes
+ * every failure into an ApiError.
+ */
+
+import config from '../config';
+import { getApiUrl } from './api';
+import { fieldErrorsFromApiErrorBody, messageFromApiErrorBody } from './apiErrors';
+import { authFetch } from '../session/authFetch';
+import { endSession, getSession } from '../session/sessionStore';
+import { csrfHeaders, usesCookieAuth } from '../session/tokenStorage';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface ApiRequestOptions {
+  method?: HttpMethod;
+  /** Serialized as JSON */
+  body?: unknown;
+  query?: QueryParams;
+  headers?: Record<string, string>;
+  /** Send the session's bearer token and end the session on 401 (default: true) */
+  auth?: boolean;
+  /**
+   * The endpoint answers 401 for a wrong code or password (2FA, re-authentication):
+   * don't refresh and resend, and keep the session (default: false)
+   */
+  keepSessionOn401?: boolean;
+  /** Defaults to 'include' when the session lives in httpOnly cookies */
+  credentials?: RequestCredentials;
+  /** Defaults to config.api.timeoutMs; 0 disables the timeout */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Resolve with null instead of failing when a successful response has no JSON body */
+  allowEmpty?: boolean;
+}
+
+/** status is 0 when no HTTP response was received (network failure, timeout) */
+export interface ApiErrorInit {
+  status: number;
+  message: string;
+  code?: string | null;
+  fieldErrors?: Record<string, string[]>;
+  body?: unknown;
+  retryAfterSeconds?: number | null;
+}
+
+/**
+ * Normalized error for every failed API call
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly fieldErrors: Record<string, string[]>;
+  readonly body: unknown;
+  /** How long the backend asks us to wait (Retry-After, or a lockout end time in the body) */
+  readonly retryAfterSeconds: number | null;
+
+  constructor({ status, message, code = null, fieldErrors = {}, body = null, retryAfterSeconds = null }: ApiErrorInit) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.body = body;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * True when a request was cancelled through the caller's AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * User-visible message for an error thrown by apiRequest (or anything else)
+ */
+export const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+function buildUrl(endpoint: string, query?: QueryParams): string {
+  const url = getApiUrl(endpoint);
+  if (!query) {
+    return url;
+  }
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      params.append(key, String(value));
+    }
+  }
+  const search = params.toString();
+  if (!search) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${search}`;
+}
+
+function errorCodeFromBody(body: unknown): string | null {
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+  const b = body as Record<string, unknown>;
+  const code = b.code ?? b.errorCode ?? b.error_code;
+  return typeof code === 'string' && code ? code : null;
+}
+
+function secondsUntil(date: string): number | null {
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? null : Math.max(0, Math.ceil((time - Date.now()) / 1000));
+}
+
+/** Retry-After is either delta-seconds or an HTTP date; some backends put it (or lockedUntil) in the body */
+function retryAfterFromResponse(response: Response, body: unknown): number | null {
+  const header = response.headers.get('retry-after')?.trim();
+  if (header) {
+    return /^\d+$/.test(header) ? Number(header) : secondsUntil(header);
+  }
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+  const b = body as Record<string, unknown>;
+  const seconds = b.retryAfter ?? b.retryAfterSeconds ?? b.retry_after;
+  if (typeof seconds === 'number' && Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+  const until = b.lockedUntil ?? b.locked_until;
+  return typeof until === 'string' ? secondsUntil(until) : null;
+}
+
+async function errorFromResponse(response: Response): Promise<ApiError> {
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('application/json')) {
+    const body: unknown = await response.json().catch(() => ({}));
+    const b = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const message =
+      messageFromApiErrorBody(body) ||
+      (typeof b.message === 'string' && b.message ? b.message : '') ||
+      `HTTP error! status: ${response.status}`;
+    return new ApiError({
+      status: response.status,
+      message,
+      code: errorCodeFromBody(body),
+      fieldErrors: fieldErrorsFromApiErrorBody(body),
+      body,
+      retryAfterSeconds: retryAfterFromResponse(response, body),
+    });
+  }
+  const text = await response.text().catch(() => '');
+  return new ApiError({
+    status: response.status,
+    message: `Server error (${response.status}): ${text.substring(0, 100)}`,
+    body: text,
+    retryAfterSeconds: retryAfterFromResponse(response, null),
+  });
+}
+
+/**
+ * Perform a JSON request against the backend
+ * @param endpoint - API endpoint (e.g., '/api/auth/login')
+ * @returns Parsed JSON body
+ * @throws ApiError for HTTP errors, non-JSON responses, network failures and timeouts;
+ *         the original AbortError when the caller's signal aborts the request
+ */
+export async function apiRequest<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    query,
+    auth = true,
+    keepSessionOn401 = false,
+    credentials = usesCookieAuth() ? 'include' : undefined,
+    timeoutMs = config.api.timeoutMs,
+    signal,
+    allowEmpty = false,
+  } = options;
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    ...csrfHeaders(method),
+    ...options.headers,
+  };
+
+  // Combine the caller's signal with our own timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const onCallerAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', onCallerAbort);
+  }
+  const timer =
+    timeoutMs > 0
+      ? window.setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  const init: RequestInit = {
+    method,
+    headers,
+    signal: controller.signal,
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+    ...(credentials ? { credentials } : {}),
+  };
+  const sentWithSession = auth && getSession() !== null;
+
+  try {
+    let response: Response;
+    try {
+      const url = buildUrl(endpoint, query);
+      response = auth ? await authFetch(url, init, { retryOn401: !keepSessionOn401 }) : await fetch(url, init);
+    } catch (error) {
+      if (timedOut) {
+        throw new ApiError({ status: 0, code: 'timeout', message: 'The server took too long to respond. Please try again.' });
+      }
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw new ApiError({
+        status: 0,
+        code: 'network_error',
+        message: error instanceof Error ? error.message : '',
+      });
+    }
+
+    if (!response.ok) {
+      const apiError = await errorFromResponse(response);
+      // authFetch already tried a refresh; a remaining 401 means the session is no longer valid
+      if (response.status === 401 && sentWithSession && !keepSessionOn401 && getSession()) {
+        endSession('expired');
+      }
+      throw apiError;
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      if (allowEmpty) {
+        return null as T;
+      }
+      const text = await response.text().catch(() => '');
+      throw new ApiError({
+        status: response.status,
+        code: 'invalid_response',
+        message: `Expected JSON but got: ${contentType}. Response: ${text.substring(0, 100)}`,
+        body: text,
+      });
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw new ApiError({ status: response.status, code: 'invalid_response', message: 'Server returned malformed JSON' });
+    }
+  } finally {
+    window.clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
@@ -1,67 +1,102 @@
+interface ApiErrorEntry {
+  /** Empty when the message is not tied to a field */
+  field: string;
+  message: string;
+}
+
 /**
- * Build a user-visible message from common API error JSON bodies
- * (Spring-style maps/arrays, FastAPI detail, generic validationErrors).
+ * Field/message pairs from the error list shapes shared by messageFromApiErrorBody and
+ * fieldErrorsFromApiErrorBody (Spring-style maps/arrays, FastAPI detail)
+ * @param fastApiField - Field name for a FastAPI `loc` array
  */
-export function messageFromApiErrorBody(data: unknown): string {
-  if (!data || typeof data !== 'object') {
-    return '';
-  }
-  const d = data as Record<string, unknown>;
-  const segments: string[] = [];
+function apiErrorEntries(d: Record<string, unknown>, fastApiField: (loc: unknown[]) => string): ApiErrorEntry[] {
+  const entries: ApiErrorEntry[] = [];
 
-  if (typeof d.message === 'string' && d.message.trim()) {
-    segments.push(d.message.trim());
-  }
-
-  // { errors: { field: ["msg"], ... } } — Spring / many REST APIs
+  // { errors: { field: ["msg"] | "msg" } } — Spring / many REST APIs
   if (d.errors && typeof d.errors === 'object' && !Array.isArray(d.errors)) {
     for (const [key, val] of Object.entries(d.errors as Record<string, unknown>)) {
       if (Array.isArray(val)) {
-        const joined = val.map(String).filter(Boolean).join(', ');
-        if (joined) segments.push(`${key}: ${joined}`);
+        val.map(String).filter(Boolean).forEach((message) => entries.push({ field: key, message }));
       } else if (typeof val === 'string' && val) {
-        segments.push(`${key}: ${val}`);
+        entries.push({ field: key, message: val });
       }
     }
   }
 
-  // { errors: [{ field, message } | { field, defaultMessage }] }
+  // { errors: [{ field, message } | { field, defaultMessage } | { property, message }] }
   if (Array.isArray(d.errors)) {
     for (const item of d.errors) {
       if (!item || typeof item !== 'object') continue;
       const o = item as Record<string, unknown>;
       const field = typeof o.field === 'string' ? o.field : typeof o.property === 'string' ? o.property : '';
-      const msg =
+      const message =
         typeof o.message === 'string'
           ? o.message
           : typeof o.defaultMessage === 'string'
             ? o.defaultMessage
             : '';
-      if (field && msg) segments.push(`${field}: ${msg}`);
-      else if (msg) segments.push(msg);
-      else if (typeof item === 'string') segments.push(item);
+      if (message) entries.push({ field, message });
     }
   }
 
-  if (Array.isArray(d.validationErrors)) {
-    segments.push(...d.validationErrors.map(String).filter(Boolean));
-  }
-
   // FastAPI 422: { detail: [{ loc, msg }, ...] }
   if (Array.isArray(d.detail)) {
     for (const item of d.detail) {
       if (!item || typeof item !== 'object') continue;
       const o = item as { loc?: unknown[]; msg?: string };
-      const loc = Array.isArray(o.loc) ? o.loc.filter(Boolean).join('.') : '';
-      const msg = typeof o.msg === 'string' ? o.msg : '';
-      if (loc && msg) segments.push(`${loc}: ${msg}`);
-      else if (msg) segments.push(msg);
+      const message = typeof o.msg === 'string' ? o.msg : '';
+      if (message) entries.push({ field: Array.isArray(o.loc) ? fastApiField(o.loc) : '', message });
     }
   }
 
+  return entries;
+}
+
+/**
+ * Build a user-visible message from common API error JSON bodies
+ * (Spring-style maps/arrays, FastAPI detail, generic validationErrors).
+ */
+export function messageFromApiErrorBody(data: unknown): string {
+  if (!data || typeof data !== 'object') {
+    return '';
+  }
+  const d = data as Record<string, unknown>;
+  const segments: string[] = [];
+
+  if (typeof d.message === 'string' && d.message.trim()) {
+    segments.push(d.message.trim());
+  }
+
+  for (const { field, message } of apiErrorEntries(d, (loc) => loc.filter(Boolean).join('.'))) {
+    segments.push(field ? `${field}: ${message}` : message);
+  }
+
+  if (Array.isArray(d.validationErrors)) {
+    segments.push(...d.validationErrors.map(String).filter(Boolean));
+  }
+
   if (typeof d.error === 'string' && d.error.trim() && !segments.length) {
     segments.push(d.error.trim());
   }
 
   return segments.filter(Boolean).join(' — ');
 }
+
+/**
+ * Extract per-field messages from the same error body shapes as messageFromApiErrorBody.
+ * Keys are field names as the backend reports them (FastAPI `loc` prefixes like "body" are dropped).
+ */
+export function fieldErrorsFromApiErrorBody(data: unknown): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  if (!data || typeof data !== 'object') {
+    return fieldErrors;
+  }
+  const fastApiField = (loc: unknown[]) =>
+    loc.filter((part) => part !== 'body' && part !== 'query').map(String).join('.');
+  for (const { field, message } of apiErrorEntries(data as Record<string, unknown>, fastApiField)) {
+    if (field) {
+      (fieldErrors[field] ??= []).push(message);
+    }
+  }
+  return fieldErrors;
+}
@@ -0,0 +1,87 @@
+/**
+ * CAPTCHA Providers
+ * Provider-agnostic challenge widgets: a provider mounts its widget into a container
+ * and reports the token the backend should verify. The built-in "local" provider is
+ * a plain checkbox for development and tests; real services (Turnstile, hCaptcha,
+ * reCAPTCHA...) register themselves with registerCaptchaProvider.
+ */
+
+import config from '../config';
+import { ApiError } from './apiClient';
+
+export interface CaptchaWidgetOptions {
+  siteKey: string;
+  /** Challenge solved; the token is sent with the next request */
+  onToken: (token: string) => void;
+  /** Token expired or the challenge was reset */
+  onExpire: () => void;
+}
+
+export interface CaptchaProvider {
+  /** Matched against config.captcha.provider */
+  id: string;
+  /** Render the widget into container; returns a cleanup function */
+  mount: (container: HTMLElement, options: CaptchaWidgetOptions) => () => void;
+}
+
+/** No external service: a checkbox that yields a recognizable test token */
+export const localCaptchaProvider: CaptchaProvider = {
+  id: 'local',
+  mount: (container, { onToken, onExpire }) => {
+    const label = document.createElement('label');
+    label.className = 'flex items-center gap-1.5 text-xs text-gray-700';
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500';
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        onToken(`local-captcha-${Date.now()}`);
+      } else {
+        onExpire();
+      }
+    });
+    label.append(checkbox, "I'm not a robot");
+    container.replaceChildren(label);
+    return () => container.replaceChildren();
+  },
+};
+
+const providers = new Map<string, CaptchaProvider>([[localCaptchaProvider.id, localCaptchaProvider]]);
+
+/**
+ * Make a provider selectable through config.captcha.provider
+ */
+export function registerCaptchaProvider(provider: CaptchaProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Provider selected in config; null when challenges are disabled ('none') or the provider is not registered
+ */
+export function getCaptchaProvider(): CaptchaProvider | null {
+  const id = config.captcha.provider;
+  if (id === 'none') {
+    return null;
+  }
+  const provider = providers.get(id) ?? null;
+  if (!provider) {
+    console.warn(`CAPTCHA provider "${id}" is not registered`);
+  }
+  return provider;
+}
+
+const CAPTCHA_CODES = new Set(['captcha_required', 'CAPTCHA_REQUIRED', 'captcha_invalid', 'CAPTCHA_INVALID']);
+
+/**
+ * True when the backend refused a request until a (new) challenge is solved
+ */
+export function isCaptchaRequiredError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  if (error.code !== null && CAPTCHA_CODES.has(error.code)) {
+    return true;
+  }
+  const body = error.body && typeof error.body === 'object' ? (error.body as Record<string, unknown>) : null;
+  return body?.captchaRequired === true || body?.captcha_required === true;
+}
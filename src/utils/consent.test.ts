@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { acceptLegalDocuments, fetchConsentStatus, pendingDocuments } from './consent';
+import { jsonResponse } from '../test/responses';
+
+describe('consent', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ask again only for documents with a newer or never accepted version', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, {
+        documents: [
+          { type: 'terms', version: '2026-09', url: 'https://example.com/terms', acceptedVersion: '2025-01' },
+          { type: 'privacy', current_version: '3', accepted_version: '3' },
+          { type: 'cookies', version: '1' },
+        ],
+      })
+    );
+
+    const pending = pendingDocuments(await fetchConsentStatus());
+
+    expect(pending.map((doc) => [doc.type, doc.title, doc.acceptedVersion])).toEqual([
+      ['terms', 'Terms of Service', '2025-01'],
+      ['cookies', 'cookies', null],
+    ]);
+  });
+
+  it('should record the exact versions that were accepted', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 204, headers: new Headers(), text: async () => '' });
+
+    await acceptLegalDocuments([
+      { type: 'terms', version: '2026-09', title: 'Terms of Service', url: '', acceptedVersion: '2025-01' },
+    ]);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ accepted: [{ type: 'terms', version: '2026-09' }] });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Consent
+ * Versioned legal documents (terms of service, privacy policy): the current versions
+ * for registration, the signed-in user's acceptance status, and recording acceptance.
+ * The backend stores which version was accepted and when.
+ */
+
+import { apiRequest } from './apiClient';
+
+export interface LegalDocument {
+  /** e.g. "terms", "privacy" */
+  type: string;
+  version: string;
+  title: string;
+  /** '' when the backend sends no link */
+  url: string;
+  /** Version the signed-in user accepted last; null if never (or not signed in) */
+  acceptedVersion: string | null;
+}
+
+/** Sent with registration and acceptance so the backend records the exact versions */
+export interface ConsentRecord {
+  type: string;
+  version: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const TITLES: Record<string, string> = {
+  terms: 'Terms of Service',
+  privacy: 'Privacy Policy',
+};
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+function toLegalDocument(raw: unknown): LegalDocument | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const doc = raw as JsonObject;
+  const type = text(doc.type);
+  const version = text(doc.version ?? doc.currentVersion ?? doc.current_version);
+  if (!type || !version) {
+    return null;
+  }
+  const accepted = text(doc.acceptedVersion ?? doc.accepted_version);
+  return {
+    type,
+    version,
+    title: text(doc.title) || TITLES[type] || type,
+    url: text(doc.url),
+    acceptedVersion: accepted || null,
+  };
+}
+
+/** Accepts `[...]` or `{ documents: [...] }` */
+function documentsFromResponse(data: unknown): LegalDocument[] {
+  const list = Array.isArray(data) ? data : (data as JsonObject | null)?.documents;
+  return (Array.isArray(list) ? list : []).map(toLegalDocument).filter((d): d is LegalDocument => d !== null);
+}
+
+/**
+ * Current document versions, shown on the registration form
+ */
+export const fetchLegalDocuments = async (signal?: AbortSignal): Promise<LegalDocument[]> =>
+  documentsFromResponse(
+    await apiRequest<unknown>('/api/auth/consent/documents', { auth: false, signal, allowEmpty: true })
+  );
+
+/**
+ * Current documents with the versions the signed-in user accepted
+ */
+export const fetchConsentStatus = async (signal?: AbortSignal): Promise<LegalDocument[]> =>
+  documentsFromResponse(await apiRequest<unknown>('/api/users/me/consent', { signal, allowEmpty: true }));
+
+/**
+ * Documents the user has never accepted, or only in an older version
+ */
+export const pendingDocuments = (documents: LegalDocument[]): LegalDocument[] =>
+  documents.filter((doc) => doc.acceptedVersion !== doc.version);
+
+export const consentRecords = (documents: LegalDocument[]): ConsentRecord[] =>
+  documents.map(({ type, version }) => ({ type, version }));
+
+/**
+ * Record that the signed-in user accepted these document versions
+ */
+export const acceptLegalDocuments = async (documents: LegalDocument[]): Promise<void> => {
+  await apiRequest<unknown>('/api/users/me/consent', {
+    method: 'POST',
+    body: { accepted: consentRecords(documents) },
+    allowEmpty: true,
+  });
+};
@@ -2,3 +2,10 @@
 export function normalizeEmail(email: string): string {
   return email.trim().toLowerCase();
 }
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Loose shape check (something@domain.tld); the backend has the final say. */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
@@ -0,0 +1,25 @@
+/**
+ * Email Availability
+ * Asks the backend whether an address can still be registered, so Register can
+ * point existing users to login before they submit.
+ */
+
+import { apiRequest } from './apiClient';
+
+/**
+ * @param email - Already normalized address
+ * @returns false when the address is already registered, null when the backend doesn't say
+ * @throws AbortError when the signal aborts (a newer lookup replaced this one)
+ */
+export const checkEmailAvailability = async (email: string, signal?: AbortSignal): Promise<boolean | null> => {
+  const data = await apiRequest<{ available?: boolean; exists?: boolean } | null>('/api/auth/email-available', {
+    query: { email },
+    auth: false,
+    signal,
+    allowEmpty: true,
+  });
+  if (typeof data?.available === 'boolean') {
+    return data.available;
+  }
+  return typeof data?.exists === 'boolean' ? !data.exists : null;
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isVerificationCodeExpired, verificationCodeExpiresIn, verifyEmailCode } from './emailVerification';
+import { jsonResponse } from '../test/responses';
+
+describe('email verification codes', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the code lifetime from the registration response', () => {
+    expect(verificationCodeExpiresIn({ codeExpiresIn: 600 })).toBe(600);
+    expect(verificationCodeExpiresIn({ code_expires_in: 300 })).toBe(300);
+    // Falls back to the configured validity (15 minutes)
+    expect(verificationCodeExpiresIn({ message: 'ok' })).toBe(900);
+    expect(verificationCodeExpiresIn(null)).toBe(900);
+  });
+
+  it('should send the address with the code', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { message: 'Verified' }));
+
+    await expect(verifyEmailCode('jane@example.com', '123456')).resolves.toBe('Verified');
+    expect(fetchMock.mock.calls[0][0]).toContain('/api/auth/verify-email/code');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ email: 'jane@example.com', code: '123456' });
+  });
+
+  it('should report an expired code as expired', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(410, { message: 'Code expired' }));
+
+    const error = await verifyEmailCode('jane@example.com', '123456').catch((err: unknown) => err);
+    expect(isVerificationCodeExpired(error)).toBe(true);
+  });
+
+  it('should not take a message mentioning expiry as an expired code', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { message: 'Invalid or expired code' }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { code: 'CODE_EXPIRED', message: 'Code expired' }));
+
+    expect(isVerificationCodeExpired(await verifyEmailCode('jane@example.com', '1').catch((err: unknown) => err))).toBe(false);
+    expect(isVerificationCodeExpired(await verifyEmailCode('jane@example.com', '1').catch((err: unknown) => err))).toBe(true);
+  });
+});
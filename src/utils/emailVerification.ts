@@ -0,0 +1,122 @@
+/**
+ * Email Verification
+ * Recognizes logins refused because the address was never verified, asks the
+ * backend to send a fresh verification link, and verifies with the emailed code
+ * as an alternative to the link.
+ */
+
+import config from '../config';
+import { apiRequest, ApiError } from './apiClient';
+import { frontendContextHeaders } from './frontendRequestHints';
+
+const NOT_VERIFIED_CODES = new Set(['email_not_verified', 'EMAIL_NOT_VERIFIED', 'account_not_verified', 'user_not_verified']);
+
+const NOT_VERIFIED_MESSAGE = /(email|account).*not (been )?(verified|confirmed)|verify your email/i;
+
+const EXPIRED_TOKEN_CODES = new Set([
+  'token_expired',
+  'TOKEN_EXPIRED',
+  'verification_token_expired',
+  'code_expired',
+  'CODE_EXPIRED',
+]);
+
+/**
+ * True when the backend refused a login because the email address is not verified yet
+ */
+export function isEmailNotVerifiedError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  if (error.code !== null && NOT_VERIFIED_CODES.has(error.code)) {
+    return true;
+  }
+  return (error.status === 401 || error.status === 403) && NOT_VERIFIED_MESSAGE.test(error.message);
+}
+
+/**
+ * True when a verification link was rejected only because it is too old (a new one will work)
+ */
+export function isVerificationTokenExpired(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  return (
+    error.status === 410 ||
+    (error.code !== null && EXPIRED_TOKEN_CODES.has(error.code)) ||
+    /expired/i.test(error.message)
+  );
+}
+
+/**
+ * True when a verification code was rejected only because it is too old (a new one will work)
+ * Decided by status and error code only: messages like "Invalid or expired code" don't say which.
+ */
+export function isVerificationCodeExpired(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  return error.status === 410 || (error.code !== null && EXPIRED_TOKEN_CODES.has(error.code));
+}
+
+export interface VerificationEmailSent {
+  /** Does not reveal whether the account exists */
+  message: string;
+  /** Lifetime of the code in the new email */
+  codeExpiresIn: number;
+}
+
+/**
+ * Send a new verification link (and code)
+ * @param email - Already normalized address
+ * @throws ApiError - e.g. 429 when links are requested too often
+ */
+export const resendVerificationEmail = async (email: string): Promise<VerificationEmailSent> => {
+  const data = await apiRequest<{ message?: string } | null>('/api/auth/resend-verification', {
+    method: 'POST',
+    auth: false,
+    headers: frontendContextHeaders(),
+    body: { email, verificationUrl: config.emailVerification.verificationUrl },
+    allowEmpty: true,
+  });
+  return {
+    message:
+      typeof data?.message === 'string' && data.message
+        ? data.message
+        : 'If this address belongs to an unverified account, we sent a new verification link.',
+    codeExpiresIn: verificationCodeExpiresIn(data),
+  };
+};
+
+/**
+ * Seconds until the emailed code expires, from the registration (or resend) response
+ */
+export function verificationCodeExpiresIn(data: unknown): number {
+  const body = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const seconds = body.codeExpiresIn ?? body.code_expires_in;
+  if (typeof seconds === 'number' && seconds > 0) {
+    return seconds;
+  }
+  const expiresAt = body.codeExpiresAt ?? body.code_expires_at;
+  const at = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+  if (!Number.isNaN(at)) {
+    return Math.max(0, Math.round((at - Date.now()) / 1000));
+  }
+  return config.emailVerification.codeValidityMinutes * 60;
+}
+
+/**
+ * Verify the address with the code from the verification email
+ * @param email - Already normalized address
+ * @returns Message to show
+ * @throws ApiError - wrong code, or expired code (see isVerificationCodeExpired)
+ */
+export const verifyEmailCode = async (email: string, code: string): Promise<string> => {
+  const data = await apiRequest<{ message?: string } | null>('/api/auth/verify-email/code', {
+    method: 'POST',
+    auth: false,
+    body: { email, code },
+    allowEmpty: true,
+  });
+  return typeof data?.message === 'string' && data.message ? data.message : 'Email verified successfully! You can now log in.';
+};
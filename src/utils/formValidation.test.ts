@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError } from './apiClient';
+import {
+  mapServerFieldErrors,
+  minLength,
+  required,
+  sameAs,
+  serverFormErrors,
+  validEmail,
+  validateForm,
+  type FormSchema,
+} from './formValidation';
+
+interface SignUp {
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+const schema: FormSchema<SignUp> = {
+  email: { rules: [required('Email is required'), validEmail()] },
+  password: { rules: [required(), minLength(6)] },
+  confirmPassword: { rules: [sameAs('password', 'Passwords do not match')] },
+};
+
+describe('validateForm', () => {
+  it('should report the first failing rule of each invalid field', () => {
+    expect(validateForm(schema, { email: '  ', password: 'abc', confirmPassword: 'abd' })).toEqual({
+      email: 'Email is required',
+      password: 'Must be at least 6 characters',
+      confirmPassword: 'Passwords do not match',
+    });
+    expect(validateForm(schema, { email: 'a@b.co', password: 'secret1', confirmPassword: 'secret1' })).toEqual({});
+  });
+});
+
+describe('server field errors', () => {
+  const fields = ['email', 'password', 'confirmPassword'] as const;
+
+  it('should match server field names regardless of case, separators and nesting', () => {
+    const { errors, unmatched } = mapServerFieldErrors<SignUp>(
+      { 'user.Email': ['already registered'], confirm_password: ['must match'], captcha: ['is invalid'] },
+      fields
+    );
+
+    expect(errors).toEqual({ email: 'already registered', confirmPassword: 'must match' });
+    expect(unmatched).toEqual(['captcha: is invalid']);
+  });
+
+  it('should only fall back to the banner when no error belongs to a field', () => {
+    const inline = new ApiError({ status: 400, message: 'Validation failed', fieldErrors: { password: ['too weak'] } });
+    const general = new ApiError({ status: 409, message: 'Conflict', fieldErrors: { account: ['exists'] } });
+
+    expect(serverFormErrors<SignUp>(inline, fields, 'Failed')).toEqual({ errors: { password: 'too weak' }, banner: null });
+    expect(serverFormErrors<SignUp>(general, fields, 'Failed')).toEqual({ errors: {}, banner: 'Conflict' });
+    expect(serverFormErrors<SignUp>(new Error(''), fields, 'Failed')).toEqual({ errors: {}, banner: 'Failed' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Form Validation
+ * Declarative per-field rules for the auth forms, plus mapping of the backend's
+ * structured field errors (see fieldErrorsFromApiErrorBody) back onto form fields.
+ */
+
+import { ApiError, errorMessage } from './apiClient';
+import { isValidEmail } from './email';
+
+/** Form values are the raw input strings, keyed by field name */
+export type FormValues<V> = { [K in keyof V]: string };
+
+/** Returns the error message, or null when the value is valid */
+export type FieldRule<V extends FormValues<V>> = (value: string, values: V) => string | null;
+
+export interface FieldSchema<V extends FormValues<V>> {
+  /** Applied when the field loses focus (e.g. normalizeEmail) */
+  normalize?: (value: string) => string;
+  /** Checked in order; the first failing rule's message is shown */
+  rules?: FieldRule<V>[];
+}
+
+export type FormSchema<V extends FormValues<V>> = { [K in keyof V]?: FieldSchema<V> };
+
+/** One message per field */
+export type FormErrors<V extends FormValues<V>> = Partial<Record<keyof V, string>>;
+
+/** Fails for empty or whitespace-only values */
+export const required =
+  <V extends FormValues<V>>(message = 'This field is required'): FieldRule<V> =>
+  (value) =>
+    value.trim() ? null : message;
+
+/** Empty values pass; combine with required() */
+export const validEmail =
+  <V extends FormValues<V>>(message = 'Enter a valid email address'): FieldRule<V> =>
+  (value) =>
+    !value.trim() || isValidEmail(value) ? null : message;
+
+/** Empty values pass; combine with required() */
+export const minLength =
+  <V extends FormValues<V>>(length: number, message = `Must be at least ${length} characters`): FieldRule<V> =>
+  (value) =>
+    !value || value.length >= length ? null : message;
+
+/** Must equal another field (e.g. password confirmation) */
+export const sameAs =
+  <V extends FormValues<V>>(field: keyof V, message: string): FieldRule<V> =>
+  (value, values) =>
+    value === values[field] ? null : message;
+
+/**
+ * First error of a single field, or null
+ */
+export function validateField<V extends FormValues<V>>(schema: FormSchema<V>, field: keyof V, values: V): string | null {
+  for (const rule of schema[field]?.rules ?? []) {
+    const message = rule(values[field] ?? '', values);
+    if (message) {
+      return message;
+    }
+  }
+  return null;
+}
+
+/**
+ * Errors of every field in the schema (valid fields are omitted)
+ */
+export function validateForm<V extends FormValues<V>>(schema: FormSchema<V>, values: V): FormErrors<V> {
+  const errors: FormErrors<V> = {};
+  for (const field of Object.keys(schema) as (keyof V)[]) {
+    const message = validateField(schema, field, values);
+    if (message) {
+      errors[field] = message;
+    }
+  }
+  return errors;
+}
+
+/** "user.first_name" and "FirstName" both match the form field "firstName" */
+function comparableFieldName(name: string): string {
+  const last = name.split('.').pop() ?? name;
+  return last.replace(/[_-]/g, '').toLowerCase();
+}
+
+/**
+ * Place server field errors on the matching form fields
+ * @param aliases - Server field name -> form field, for fields named differently (e.g. { username: 'email' })
+ * @returns Messages per form field, and messages for fields the form doesn't have
+ */
+export function mapServerFieldErrors<V extends FormValues<V>>(
+  fieldErrors: Record<string, string[]>,
+  fields: readonly (keyof V & string)[],
+  aliases: Record<string, keyof V & string> = {}
+): { errors: FormErrors<V>; unmatched: string[] } {
+  const errors: FormErrors<V> = {};
+  const unmatched: string[] = [];
+  for (const [serverField, messages] of Object.entries(fieldErrors)) {
+    const field =
+      aliases[serverField] ?? fields.find((name) => comparableFieldName(name) === comparableFieldName(serverField));
+    if (field) {
+      errors[field] = errors[field] ?? messages[0];
+    } else {
+      unmatched.push(...messages.map((message) => `${serverField}: ${message}`));
+    }
+  }
+  return { errors, unmatched };
+}
+
+/**
+ * Split a failed submission into inline field errors and the message for the error banner
+ * @returns banner is null when every problem is shown next to its field
+ */
+export function serverFormErrors<V extends FormValues<V>>(
+  error: unknown,
+  fields: readonly (keyof V & string)[],
+  fallback: string,
+  aliases: Record<string, keyof V & string> = {}
+): { errors: FormErrors<V>; banner: string | null } {
+  if (!(error instanceof ApiError) || Object.keys(error.fieldErrors).length === 0) {
+    return { errors: {}, banner: errorMessage(error, fallback) };
+  }
+  const { errors, unmatched } = mapServerFieldErrors<V>(error.fieldErrors, fields, aliases);
+  if (Object.keys(errors).length === 0) {
+    return { errors, banner: errorMessage(error, fallback) };
+  }
+  return { errors, banner: unmatched.length ? unmatched.join(' — ') : null };
+}
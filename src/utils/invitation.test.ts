@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiError } from './apiClient';
+import { invitationProblem, validateInvitation } from './invitation';
+import { jsonResponse } from '../test/responses';
+
+describe('invitations', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the invited details', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { email: 'new.hire@example.com', first_name: 'Sam', role: 'editor' }));
+
+    await expect(validateInvitation('inv/1')).resolves.toEqual({
+      token: 'inv/1',
+      email: 'new.hire@example.com',
+      firstName: 'Sam',
+      lastName: null,
+      role: 'editor',
+    });
+    expect(fetchMock.mock.calls[0][0]).toContain('/api/auth/invitations/inv%2F1');
+  });
+
+  it('should tell expired, used and unknown invites apart', () => {
+    expect(invitationProblem(new ApiError({ status: 410, message: 'Gone' }))).toBe('expired');
+    expect(invitationProblem(new ApiError({ status: 400, message: 'Bad', code: 'invitation_used' }))).toBe('used');
+    expect(invitationProblem(new ApiError({ status: 409, message: 'Conflict' }))).toBe('used');
+    expect(invitationProblem(new ApiError({ status: 404, message: 'Not found' }))).toBe('invalid');
+    expect(invitationProblem(new ApiError({ status: 503, message: 'Unavailable' }))).toBe('error');
+  });
+});
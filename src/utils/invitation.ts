@@ -0,0 +1,64 @@
+/**
+ * Invitations
+ * Admin-issued registration invites: validates the token from /register?invite=<token>
+ * and tells expired, already used and unknown invites apart.
+ */
+
+import { apiRequest, ApiError } from './apiClient';
+
+export interface Invitation {
+  token: string;
+  /** Locked in the registration form */
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  /** Role the account will get, for display only */
+  role: string | null;
+}
+
+/** Why an invite cannot be used */
+export type InvitationProblem = 'expired' | 'used' | 'invalid' | 'error';
+
+const EXPIRED_CODES = new Set(['invitation_expired', 'INVITATION_EXPIRED', 'invite_expired']);
+
+const USED_CODES = new Set(['invitation_used', 'INVITATION_USED', 'invitation_already_used', 'invite_used']);
+
+const text = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/**
+ * Classify a rejected invite; 'error' means the check itself failed and may be retried
+ */
+export function invitationProblem(error: unknown): InvitationProblem {
+  if (!(error instanceof ApiError)) {
+    return 'error';
+  }
+  if (error.status === 410 || (error.code !== null && EXPIRED_CODES.has(error.code))) {
+    return 'expired';
+  }
+  if (error.status === 409 || (error.code !== null && USED_CODES.has(error.code))) {
+    return 'used';
+  }
+  return [400, 404].includes(error.status) ? 'invalid' : 'error';
+}
+
+/**
+ * Check an invite before showing the registration form
+ * @throws ApiError - see invitationProblem
+ */
+export const validateInvitation = async (token: string, signal?: AbortSignal): Promise<Invitation> => {
+  const data = await apiRequest<Record<string, unknown>>(`/api/auth/invitations/${encodeURIComponent(token)}`, {
+    auth: false,
+    signal,
+  });
+  const email = text(data.email);
+  if (!email) {
+    throw new ApiError({ status: 400, message: 'This invitation is not valid.' });
+  }
+  return {
+    token,
+    email,
+    firstName: text(data.firstName ?? data.first_name),
+    lastName: text(data.lastName ?? data.last_name),
+    role: text(data.role),
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { decodeJwtPayload, getTokenEmail, getTokenExpiry } from './jwt';
+
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeJwt = (claims: object) => `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}.signature`;
+
+describe('jwt utils', () => {
+  it('should decode the claims of a JWT', () => {
+    const token = makeJwt({ sub: 'user@example.com', exp: 1700000000 });
+
+    expect(decodeJwtPayload(token)).toEqual({ sub: 'user@example.com', exp: 1700000000 });
+  });
+
+  it('should return the expiry in milliseconds', () => {
+    expect(getTokenExpiry(makeJwt({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+  });
+
+  it('should return null for opaque tokens or tokens without exp', () => {
+    expect(decodeJwtPayload('mock-jwt-token')).toBeNull();
+    expect(getTokenExpiry('mock-jwt-token')).toBeNull();
+    expect(getTokenExpiry(makeJwt({ sub: 'user@example.com' }))).toBeNull();
+  });
+
+  it('should read the account email from the email or sub claim', () => {
+    expect(getTokenEmail(makeJwt({ email: 'user@example.com', sub: '42' }))).toBe('user@example.com');
+    expect(getTokenEmail(makeJwt({ sub: 'user@example.com' }))).toBe('user@example.com');
+    expect(getTokenEmail(makeJwt({ sub: '42' }))).toBeNull();
+  });
+});
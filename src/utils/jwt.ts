@@ -0,0 +1,52 @@
+/**
+ * JWT Utility Functions
+ * Reads claims from a token on the client. Signatures are NOT verified here —
+ * the backend remains the authority; this is only used for scheduling (expiry).
+ */
+
+function base64UrlDecode(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  // Claims are UTF-8 JSON; atob yields one char per byte
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode the payload (claims) of a JWT
+ * @returns The claims object, or null if the token is not a well-formed JWT
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts[1]) {
+    return null;
+  }
+  try {
+    const payload: unknown = JSON.parse(base64UrlDecode(parts[1]));
+    return payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? (payload as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of a JWT as epoch milliseconds (from the `exp` claim)
+ * @returns null for opaque tokens or tokens without `exp`
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+/**
+ * Account email carried by a JWT (`email` claim, else an email-shaped `sub`)
+ * @returns null for opaque tokens or tokens without one
+ */
+export function getTokenEmail(token: string): string | null {
+  const claims = decodeJwtPayload(token);
+  const candidate = claims?.email ?? claims?.sub;
+  return typeof candidate === 'string' && candidate.includes('@') ? candidate : null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Magic Link (passwordless) Login
+ * Asks the backend to email a one-time sign-in link and exchanges the link's token
+ * for a session.
+ */
+
+import config from '../config';
+import { apiRequest } from './apiClient';
+import { frontendContextHeaders } from './frontendRequestHints';
+
+/** Same shape as the password login response (may also be a second-factor challenge) */
+export interface MagicLinkLoginResponse {
+  token?: string;
+  refreshToken?: string;
+  refresh_token?: string;
+  email?: string;
+  user?: { email?: string };
+  message?: string;
+}
+
+/**
+ * Email a one-time sign-in link
+ * @param email - Already normalized address
+ * @returns Message to show (the backend's, or a generic one that doesn't reveal whether the account exists)
+ */
+export const requestMagicLink = async (email: string): Promise<string> => {
+  const data = await apiRequest<{ message?: string } | null>('/api/auth/magic-link', {
+    method: 'POST',
+    auth: false,
+    headers: frontendContextHeaders(),
+    body: { email, redirectUrl: config.magicLink.loginUrl },
+    allowEmpty: true,
+  });
+  return typeof data?.message === 'string' && data.message
+    ? data.message
+    : 'If an account exists for this email, we sent a sign-in link. It can be used once and expires soon.';
+};
+
+/**
+ * Exchange the token from a sign-in link for a login response
+ * @throws ApiError - invalid, expired or already used link
+ */
+export const consumeMagicLink = (token: string): Promise<MagicLinkLoginResponse> =>
+  apiRequest<MagicLinkLoginResponse>('/api/auth/magic-link/verify', {
+    method: 'POST',
+    auth: false,
+    body: { token },
+  });
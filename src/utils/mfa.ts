@@ -0,0 +1,110 @@
+/**
+ * Two-Factor Authentication (login challenge)
+ * Detects a "second factor required" login response and verifies the code the user
+ * enters (authenticator app, emailed one-time code or recovery code).
+ */
+
+import { apiRequest, ApiError } from './apiClient';
+
+export type MfaMethod = 'totp' | 'email' | 'recovery';
+
+/** Pending login waiting for a second factor */
+export interface MfaChallenge {
+  /** Short-lived token identifying the half-finished login */
+  mfaToken: string;
+  /** Factors the user can use, in the backend's order of preference */
+  methods: MfaMethod[];
+  /** Masked address the email code goes to (e.g. "j***@example.com") */
+  emailHint: string | null;
+}
+
+/** Tokens returned once the second factor is accepted */
+export interface MfaVerifyResponse {
+  token?: string;
+  refreshToken?: string;
+  refresh_token?: string;
+  email?: string;
+  role?: string;
+  roles?: string[];
+  user?: { email?: string; role?: string; roles?: string[] };
+}
+
+const KNOWN_METHODS = new Set<string>(['totp', 'email', 'recovery']);
+
+/** Backends name the app-based factor differently */
+const METHOD_ALIASES: Record<string, MfaMethod> = {
+  otp: 'totp',
+  authenticator: 'totp',
+  app: 'totp',
+  email_otp: 'email',
+  recovery_code: 'recovery',
+};
+
+function normalizeMethods(value: unknown): MfaMethod[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const methods = list
+    .filter((m): m is string => typeof m === 'string')
+    .map((m) => m.trim().toLowerCase())
+    .map((m) => METHOD_ALIASES[m] ?? m)
+    .filter((m): m is MfaMethod => KNOWN_METHODS.has(m) && m !== 'recovery');
+  return methods.length > 0 ? Array.from(new Set(methods)) : ['totp'];
+}
+
+/**
+ * Second-factor challenge in a login (or OAuth2) response, if the backend asked for one
+ * Accepts `mfaRequired`/`mfa_required`/`twoFactorRequired` with `mfaToken`/`mfa_token`.
+ */
+export function mfaChallengeFromResponse(data: unknown): MfaChallenge | null {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const d = data as Record<string, unknown>;
+  const required = d.mfaRequired ?? d.mfa_required ?? d.twoFactorRequired ?? d.two_factor_required;
+  const mfaToken = d.mfaToken ?? d.mfa_token;
+  if ((required !== true && required !== 'true') || typeof mfaToken !== 'string' || !mfaToken) {
+    return null;
+  }
+  const emailHint = d.emailHint ?? d.email_hint;
+  return {
+    mfaToken,
+    methods: normalizeMethods(d.mfaMethods ?? d.mfa_methods ?? d.methods),
+    emailHint: typeof emailHint === 'string' && emailHint ? emailHint : null,
+  };
+}
+
+/**
+ * Send a one-time login code to the user's email
+ */
+export const sendMfaEmailCode = async (challenge: MfaChallenge): Promise<void> => {
+  await apiRequest<unknown>('/api/auth/mfa/email-code', {
+    method: 'POST',
+    auth: false,
+    body: { mfaToken: challenge.mfaToken },
+    allowEmpty: true,
+  });
+};
+
+/**
+ * Complete the login with a second-factor code
+ * @throws ApiError - wrong code (rateLimit's attemptsRemaining() tells how many are left), lockout, expired challenge
+ */
+export const verifyMfaCode = (challenge: MfaChallenge, method: MfaMethod, code: string): Promise<MfaVerifyResponse> =>
+  apiRequest<MfaVerifyResponse>('/api/auth/mfa/verify', {
+    method: 'POST',
+    auth: false,
+    body: { mfaToken: challenge.mfaToken, method, code: code.replace(/\s+/g, '') },
+  });
+
+/**
+ * True when the backend refuses further attempts (locked account or rate limit)
+ */
+export function isMfaLockout(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 423 || error.status === 429 || error.code === 'mfa_locked');
+}
+
+/**
+ * True when the pending login is no longer valid and the user has to sign in again
+ */
+export function isMfaChallengeExpired(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 401 || error.code === 'mfa_token_expired');
+}
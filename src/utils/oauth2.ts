@@ -3,10 +3,15 @@
  * Handles OAuth2 authentication flow
  */
 
-import { getApiUrl, getApiBaseUrl } from './api';
+import { getApiBaseUrl } from './api';
+import { apiRequest } from './apiClient';
+import { OAUTH2_RETURN_TO_STORAGE_KEY, sanitizeReturnTo } from './returnTo';
 
 export type OAuth2Provider = 'google' | 'facebook' | 'microsoft';
 
+/** "Remember me" choice from the login form, applied when the callback starts the session */
+export const OAUTH2_REMEMBER_ME_STORAGE_KEY = 'oauth2_remember_me';
+
 const VALID_OAUTH2_PROVIDERS = new Set<string>(['google', 'facebook', 'microsoft']);
 
 /** Backend may still list these; we never show a button or start a flow for them. */
@@ -40,25 +45,10 @@ export const getOAuth2AuthorizationUrl = async (provider: OAuth2Provider): Promi
     const basePath = import.meta.env.BASE_URL || '/user-management-UI';
     const callbackPath = basePath.endsWith('/') ? 'oauth2/callback' : '/oauth2/callback';
     const redirectUri = `${window.location.origin}${basePath}${callbackPath}`;
-    const response = await fetch(`${getApiUrl(`/api/oauth2/authorization-url/${provider}`)}?redirect_uri=${encodeURIComponent(redirectUri)}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
+    const data = await apiRequest<Record<string, string | undefined>>(`/api/oauth2/authorization-url/${provider}`, {
+      auth: false,
+      query: { redirect_uri: redirectUri },
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ message: 'Failed to get authorization URL' }));
-      throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-    }
-
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-      const text = await response.text();
-      throw new Error(`Expected JSON but got: ${contentType}. Response: ${text.substring(0, 100)}`);
-    }
-
-    const data = await response.json();
     let authUrl = data.authorizationUrl || data.url || data.authorization_url || '';
     
     // Ensure the URL is absolute
@@ -92,13 +82,20 @@ export const getOAuth2AuthorizationUrl = async (provider: OAuth2Provider): Promi
 /**
  * Initiate OAuth2 login flow
  * Fetches authorization URL from backend and redirects user to OAuth2 provider's authorization page
+ * @param returnTo - In-app path to open after the callback completes (validated; defaults to '/')
+ * @param rememberMe - Keep the resulting session after the browser is closed
  */
-export const initiateOAuth2Login = async (provider: OAuth2Provider): Promise<void> => {
+export const initiateOAuth2Login = async (
+  provider: OAuth2Provider,
+  returnTo?: string,
+  rememberMe = true
+): Promise<void> => {
   try {
-    // Store the provider and frontend origin in sessionStorage for callback handling
+    // Store the provider, post-login target and frontend origin in sessionStorage for callback handling
     sessionStorage.setItem('oauth2_provider', provider);
-    sessionStorage.setItem('oauth2_redirect_after_login', window.location.pathname);
+    sessionStorage.setItem(OAUTH2_RETURN_TO_STORAGE_KEY, sanitizeReturnTo(returnTo) ?? '/');
     sessionStorage.setItem('oauth2_frontend_origin', window.location.origin);
+    sessionStorage.setItem(OAUTH2_REMEMBER_ME_STORAGE_KEY, String(rememberMe));
     
     // Get authorization URL from backend
     const authUrl = await getOAuth2AuthorizationUrl(provider);
@@ -114,8 +111,9 @@ export const initiateOAuth2Login = async (provider: OAuth2Provider): Promise<voi
   } catch (error) {
     console.error('Error initiating OAuth2 login:', error);
     sessionStorage.removeItem('oauth2_provider');
-    sessionStorage.removeItem('oauth2_redirect_after_login');
+    sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
     sessionStorage.removeItem('oauth2_frontend_origin');
+    sessionStorage.removeItem(OAUTH2_REMEMBER_ME_STORAGE_KEY);
     throw error;
   }
 };
@@ -135,12 +133,10 @@ export const handleOAuth2Callback = async (
   }
 
   try {
-    const response = await fetch(getApiUrl('/api/oauth2/callback'), {
+    const data = await apiRequest<{ token: string; user?: Record<string, unknown> }>('/api/oauth2/callback', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+      auth: false,
+      body: {
         code,
         state,
         provider,
@@ -150,27 +146,18 @@ export const handleOAuth2Callback = async (
           const callbackPath = basePath.endsWith('/') ? 'oauth2/callback' : '/oauth2/callback';
           return `${frontendOrigin}${basePath}${callbackPath}`;
         })(),
-      }),
+      },
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ 
-        message: 'OAuth2 callback failed' 
-      }));
-      throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
     
     // Clear session storage
     sessionStorage.removeItem('oauth2_provider');
-    sessionStorage.removeItem('oauth2_redirect_after_login');
+    sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
     sessionStorage.removeItem('oauth2_frontend_origin');
     
     return data;
   } catch (error) {
     sessionStorage.removeItem('oauth2_provider');
-    sessionStorage.removeItem('oauth2_redirect_after_login');
+    sessionStorage.removeItem(OAUTH2_RETURN_TO_STORAGE_KEY);
     sessionStorage.removeItem('oauth2_frontend_origin');
     throw error;
   }
@@ -182,29 +169,13 @@ export const handleOAuth2Callback = async (
  */
 export const getAvailableOAuth2Providers = async (): Promise<OAuth2Provider[]> => {
   try {
-    const response = await fetch(getApiUrl('/api/oauth2/providers'), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
+    const data = await apiRequest<{ providers?: unknown }>('/api/oauth2/providers', {
+      auth: false,
     });
-    
-    if (!response.ok) {
-      console.warn('Failed to fetch OAuth2 providers, using defaults');
-      return ['google'];
-    }
-
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-      console.warn('Invalid response type from providers endpoint, using defaults');
-      return ['google'];
-    }
-
-    const data = await response.json();
     const raw = data.providers ?? data;
     return normalizeOAuth2Providers(raw);
   } catch (error) {
-    console.error('Error fetching OAuth2 providers:', error);
+    console.warn('Failed to fetch OAuth2 providers, using defaults:', error);
     return ['google'];
   }
 };
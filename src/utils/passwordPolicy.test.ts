@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  checkPassword,
+  fetchPasswordPolicy,
+  passwordStrength,
+  policyFromResponse,
+  type PasswordContext,
+  type PasswordPolicy,
+} from './passwordPolicy';
+import { jsonResponse } from '../test/responses';
+
+const unmet = (password: string, policy: PasswordPolicy, context?: PasswordContext) =>
+  checkPassword(password, policy, context)
+    .filter((requirement) => requirement.met === false)
+    .map((requirement) => requirement.id);
+
+describe('password policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to the default policy when the endpoint is missing', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      headers: new Headers({ 'content-type': 'text/html' }),
+      text: async () => 'Not Found',
+    }) as typeof fetch;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(fetchPasswordPolicy()).resolves.toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it('should ask again after a failed request instead of keeping the default', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse(200, { minLength: 12 })) as typeof fetch;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(fetchPasswordPolicy()).resolves.toEqual(DEFAULT_PASSWORD_POLICY);
+    await expect(fetchPasswordPolicy()).resolves.toMatchObject({ minLength: 12 });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read snake_case policies and keep defaults for missing values', () => {
+    const policy = policyFromResponse({ min_length: 12, require_symbol: true, history_count: 5 });
+
+    expect(policy).toMatchObject({
+      minLength: 12,
+      requireSymbol: true,
+      historyCount: 5,
+      requireUppercase: DEFAULT_PASSWORD_POLICY.requireUppercase,
+    });
+  });
+
+  it('should list the requirements a password does not meet', () => {
+    const policy: PasswordPolicy = {
+      minLength: 8,
+      maxLength: 128,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      disallowedPatterns: ['password', 'qwerty', '123456'],
+      disallowPersonalInfo: true,
+      historyCount: 3,
+    };
+
+    expect(unmet('abc', policy)).toEqual(['length', 'uppercase', 'digit', 'symbol']);
+    expect(unmet('Password123!', policy)).toEqual(['patterns']);
+    expect(unmet('Janedoe#2024', policy, { email: 'jane.doe@example.com' })).toEqual(['personal']);
+    expect(unmet('Tr1cky!Horse', policy)).toEqual([]);
+    // Only the backend knows the previous passwords
+    expect(checkPassword('Tr1cky!Horse', policy).find((r) => r.id === 'history')?.met).toBeNull();
+  });
+
+  it('should rate longer and more varied passwords as stronger', () => {
+    expect(passwordStrength('').score).toBe(0);
+    expect(passwordStrength('aaaaaaa').score).toBeLessThan(passwordStrength('Tr1cky!Horse').score);
+    expect(passwordStrength('c0rrect-Horse-battery-Staple!').label).toBe('Strong');
+  });
+});
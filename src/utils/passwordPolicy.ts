@@ -0,0 +1,219 @@
+/**
+ * Password Policy
+ * Fetches the backend's password rules (falling back to a built-in default), checks a
+ * password against them and estimates its strength for the checklist and meter.
+ */
+
+import { apiRequest } from './apiClient';
+import type { FieldRule, FormValues } from './formValidation';
+
+export interface PasswordPolicy {
+  minLength: number;
+  /** null: no upper limit */
+  maxLength: number | null;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Case-insensitive substrings the password must not contain (e.g. "password", "qwerty") */
+  disallowedPatterns: string[];
+  /** The password must not contain the user's email name or first/last name */
+  disallowPersonalInfo: boolean;
+  /** Number of previous passwords that cannot be reused (checked by the backend only) */
+  historyCount: number;
+}
+
+/** Used when the backend has no policy endpoint: its long-standing rule of at least 6 characters */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 6,
+  maxLength: null,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  disallowedPatterns: [],
+  disallowPersonalInfo: false,
+  historyCount: 0,
+};
+
+/** Personal details the password may not contain */
+export interface PasswordContext {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface PasswordRequirement {
+  id: string;
+  label: string;
+  /** null when only the backend can check it (password history) */
+  met: boolean | null;
+}
+
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (strong) */
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+const pick = (b: Record<string, unknown>, ...keys: string[]): unknown => {
+  for (const key of keys) {
+    if (b[key] !== undefined && b[key] !== null) {
+      return b[key];
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Normalize the policy response (camelCase or snake_case); missing values keep the default
+ */
+export function policyFromResponse(data: unknown): PasswordPolicy {
+  if (!data || typeof data !== 'object') {
+    return DEFAULT_PASSWORD_POLICY;
+  }
+  const b = data as Record<string, unknown>;
+  const number = (fallback: number, ...keys: string[]) => {
+    const value = pick(b, ...keys);
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  };
+  const flag = (fallback: boolean, ...keys: string[]) => {
+    const value = pick(b, ...keys);
+    return typeof value === 'boolean' ? value : fallback;
+  };
+  const patterns = pick(b, 'disallowedPatterns', 'disallowed_patterns', 'blacklist');
+  const maxLength = pick(b, 'maxLength', 'max_length');
+
+  return {
+    minLength: number(DEFAULT_PASSWORD_POLICY.minLength, 'minLength', 'min_length'),
+    maxLength: typeof maxLength === 'number' && maxLength > 0 ? maxLength : null,
+    requireUppercase: flag(DEFAULT_PASSWORD_POLICY.requireUppercase, 'requireUppercase', 'require_uppercase'),
+    requireLowercase: flag(DEFAULT_PASSWORD_POLICY.requireLowercase, 'requireLowercase', 'require_lowercase'),
+    requireDigit: flag(DEFAULT_PASSWORD_POLICY.requireDigit, 'requireDigit', 'require_digit', 'requireNumber'),
+    requireSymbol: flag(DEFAULT_PASSWORD_POLICY.requireSymbol, 'requireSymbol', 'require_symbol', 'requireSpecial'),
+    disallowedPatterns: Array.isArray(patterns)
+      ? patterns.filter((p): p is string => typeof p === 'string' && p.length > 0)
+      : DEFAULT_PASSWORD_POLICY.disallowedPatterns,
+    disallowPersonalInfo: flag(
+      DEFAULT_PASSWORD_POLICY.disallowPersonalInfo,
+      'disallowPersonalInfo',
+      'disallow_personal_info'
+    ),
+    historyCount: number(DEFAULT_PASSWORD_POLICY.historyCount, 'historyCount', 'history_count', 'passwordHistory'),
+  };
+}
+
+let policyRequest: Promise<PasswordPolicy> | null = null;
+
+/**
+ * Password policy from the backend (kept for the page's life once loaded)
+ * @returns The default policy when the endpoint is missing or fails (asked again next time)
+ */
+export function fetchPasswordPolicy(): Promise<PasswordPolicy> {
+  policyRequest ??= apiRequest<unknown>('/api/auth/password-policy', { auth: false })
+    .then(policyFromResponse)
+    .catch((error: unknown) => {
+      console.warn('Could not load the password policy, using the default:', error);
+      policyRequest = null;
+      return DEFAULT_PASSWORD_POLICY;
+    });
+  return policyRequest;
+}
+
+/** Parts of the user's details long enough to matter ("jane" from jane.doe@example.com) */
+function personalTerms(context: PasswordContext): string[] {
+  const local = context.email?.split('@')[0] ?? '';
+  return [local, ...local.split(/[._+-]/), context.firstName ?? '', context.lastName ?? '']
+    .map((term) => term.trim().toLowerCase())
+    .filter((term) => term.length >= 3);
+}
+
+/**
+ * Every rule of the policy and whether the password meets it, in display order
+ */
+export function checkPassword(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): PasswordRequirement[] {
+  const lower = password.toLowerCase();
+  const requirements: PasswordRequirement[] = [
+    {
+      id: 'length',
+      label:
+        policy.maxLength !== null
+          ? `${policy.minLength}–${policy.maxLength} characters`
+          : `At least ${policy.minLength} characters`,
+      met: password.length >= policy.minLength && (policy.maxLength === null || password.length <= policy.maxLength),
+    },
+  ];
+  if (policy.requireUppercase) {
+    requirements.push({ id: 'uppercase', label: 'An uppercase letter', met: /[A-Z]/.test(password) });
+  }
+  if (policy.requireLowercase) {
+    requirements.push({ id: 'lowercase', label: 'A lowercase letter', met: /[a-z]/.test(password) });
+  }
+  if (policy.requireDigit) {
+    requirements.push({ id: 'digit', label: 'A number', met: /\d/.test(password) });
+  }
+  if (policy.requireSymbol) {
+    requirements.push({ id: 'symbol', label: 'A symbol (e.g. ! ? # @)', met: /[^A-Za-z0-9\s]/.test(password) });
+  }
+  if (policy.disallowedPatterns.length > 0) {
+    requirements.push({
+      id: 'patterns',
+      label: 'No common words or sequences',
+      met: password.length > 0 && !policy.disallowedPatterns.some((pattern) => lower.includes(pattern.toLowerCase())),
+    });
+  }
+  if (policy.disallowPersonalInfo) {
+    requirements.push({
+      id: 'personal',
+      label: 'Does not contain your name or email',
+      met: password.length > 0 && !personalTerms(context).some((term) => lower.includes(term)),
+    });
+  }
+  if (policy.historyCount > 0) {
+    requirements.push({
+      id: 'history',
+      label: `Not one of your last ${policy.historyCount} passwords`,
+      met: null,
+    });
+  }
+  return requirements;
+}
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'] as const;
+
+/**
+ * Rough strength estimate from length and character variety (repeats and sequences count less)
+ */
+export function passwordStrength(password: string): PasswordStrength {
+  if (!password) {
+    return { score: 0, label: STRENGTH_LABELS[0] };
+  }
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length;
+  const unique = new Set(password).size;
+  let points = Math.min(unique, 16) / 4 + classes;
+  if (/(.)\1{2,}/.test(password) || /(?:abc|123|qwe)/i.test(password)) {
+    points -= 1.5;
+  }
+  const score = Math.max(0, Math.min(4, Math.floor(points / 2))) as PasswordStrength['score'];
+  return { score, label: STRENGTH_LABELS[score] };
+}
+
+/**
+ * Form rule that fails until every checkable requirement is met. Personal details are read
+ * from the form's email/firstName/lastName fields when it has them.
+ */
+export const meetsPasswordPolicy =
+  <V extends FormValues<V>>(policy: PasswordPolicy): FieldRule<V> =>
+  (value, values) => {
+    const fields = values as Record<string, string>;
+    const unmet = checkPassword(value, policy, {
+      email: fields.email,
+      firstName: fields.firstName,
+      lastName: fields.lastName,
+    }).find((requirement) => requirement.met === false);
+    return unmet ? `Password requirement not met: ${unmet.label.toLowerCase()}` : null;
+  };
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { formatPhoneAsYouType, normalizePhone, parseStoredPhone, phoneCountryOf, validPhone } from './phone';
+
+describe('phone numbers', () => {
+  it('should normalize national and international input to E.164', () => {
+    expect(normalizePhone('(201) 555-0123', 'US')).toBe('+12015550123');
+    expect(normalizePhone('020 7183 8750', 'GB')).toBe('+442071838750');
+    // A "+" prefix wins over the selected country
+    expect(normalizePhone('+44 20 7183 8750', 'US')).toBe('+442071838750');
+    expect(normalizePhone('12345', 'US')).toBeNull();
+  });
+
+  it('should format while typing and detect the country from a "+" prefix', () => {
+    expect(formatPhoneAsYouType('2015550123', 'US')).toBe('(201) 555-0123');
+    expect(phoneCountryOf('+44 20 7183 8750')).toBe('GB');
+    expect(phoneCountryOf('2015550123')).toBeUndefined();
+  });
+
+  it('should split a stored number into its country and national format', () => {
+    expect(parseStoredPhone('+442071838750', 'US')).toEqual({ country: 'GB', national: '020 7183 8750' });
+    expect(parseStoredPhone('', 'US')).toEqual({ country: 'US', national: '' });
+  });
+
+  it('should validate a phone field against the country field', () => {
+    const rule = validPhone<{ phone: string; phoneCountry: string }>('phoneCountry');
+
+    expect(rule('020 7183 8750', { phone: '020 7183 8750', phoneCountry: 'GB' })).toBeNull();
+    expect(rule('020 7183 8750', { phone: '020 7183 8750', phoneCountry: 'US' })).toBe('Enter a valid phone number');
+    // Empty values are left to required()
+    expect(rule('', { phone: '', phoneCountry: 'US' })).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Phone Numbers
+ * Country-aware formatting, validation and E.164 normalization (the phone counterpart
+ * of normalizeEmail), backed by libphonenumber-js metadata.
+ */
+
+import {
+  AsYouType,
+  getCountries,
+  getCountryCallingCode,
+  parsePhoneNumberFromString,
+  type CountryCode,
+} from 'libphonenumber-js';
+import config from '../config';
+import type { FieldRule, FormValues } from './formValidation';
+
+export type { CountryCode };
+
+export interface PhoneCountry {
+  code: CountryCode;
+  name: string;
+  /** Without "+", e.g. "44" */
+  callingCode: string;
+}
+
+const isCountryCode = (value: string): value is CountryCode => (getCountries() as string[]).includes(value);
+
+/**
+ * Country preselected in phone inputs: config, else the browser's region, else US
+ */
+export function defaultPhoneCountry(): CountryCode {
+  const configured = config.phone.defaultCountry.toUpperCase();
+  if (isCountryCode(configured)) {
+    return configured;
+  }
+  const region = navigator.language.split('-')[1]?.toUpperCase() ?? '';
+  return isCountryCode(region) ? region : 'US';
+}
+
+let countries: PhoneCountry[] | null = null;
+
+/**
+ * Every supported country with its localized name, sorted by name
+ */
+export function phoneCountries(): PhoneCountry[] {
+  if (!countries) {
+    const names =
+      typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames([navigator.language], { type: 'region' }) : null;
+    countries = getCountries()
+      .map((code) => ({ code, name: names?.of(code) ?? code, callingCode: getCountryCallingCode(code) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  return countries;
+}
+
+/**
+ * Format a partially typed number for display; input starting with "+" may switch countries
+ */
+export function formatPhoneAsYouType(input: string, country: CountryCode): string {
+  return new AsYouType(country).input(input);
+}
+
+/**
+ * Country the typed number belongs to, when it is written with a "+" prefix
+ */
+export function phoneCountryOf(input: string): CountryCode | undefined {
+  if (!input.trim().startsWith('+')) {
+    return undefined;
+  }
+  const typer = new AsYouType();
+  typer.input(input);
+  return typer.getCountry();
+}
+
+/**
+ * E.164 form of a phone number (e.g. "+442071838750")
+ * @param country - Country for numbers written without a "+" prefix
+ * @returns null when the number is not valid
+ */
+export function normalizePhone(input: string, country: CountryCode): string | null {
+  const parsed = parsePhoneNumberFromString(input.trim(), country);
+  return parsed?.isValid() ? parsed.number : null;
+}
+
+/**
+ * Split a stored E.164 number for editing: its country and national formatting
+ */
+export function parseStoredPhone(value: string, fallbackCountry: CountryCode): { country: CountryCode; national: string } {
+  const parsed = value ? parsePhoneNumberFromString(value) : undefined;
+  if (!parsed?.country) {
+    return { country: fallbackCountry, national: value };
+  }
+  return { country: parsed.country, national: parsed.formatNational() };
+}
+
+/**
+ * Stored E.164 number for display, e.g. "+44 20 7183 8750"
+ */
+export function formatStoredPhone(value: string): string {
+  return (value && parsePhoneNumberFromString(value)?.formatInternational()) || value;
+}
+
+/**
+ * Form rule for a phone field whose country lives in another form field
+ */
+export const validPhone =
+  <V extends FormValues<V>>(countryField: keyof V, message = 'Enter a valid phone number'): FieldRule<V> =>
+  (value, values) => {
+    const country = values[countryField];
+    return !value.trim() || (isCountryCode(country) && normalizePhone(value, country)) ? null : message;
+  };
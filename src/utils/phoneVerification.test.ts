@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { confirmPhoneCode, phoneVerificationToken, sendPhoneCode } from './phoneVerification';
+import { endSession, getSession, startSession } from '../session/sessionStore';
+import { jsonResponse } from '../test/responses';
+
+describe('phone verification', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    endSession();
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should identify a just-registered account by its registration token and read the resend delay', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { resend_after: 45 }));
+
+    const result = await sendPhoneCode({ verificationToken: 'reg-token' });
+
+    expect(fetchMock.mock.calls[0][0]).toContain('/api/auth/phone-verification/send');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ verificationToken: 'reg-token' });
+    expect(result).toEqual({ message: 'We texted you a verification code.', resendAfterSeconds: 45 });
+  });
+
+  it('should send only the code for the signed-in user', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 204, headers: new Headers(), text: async () => '' });
+
+    await confirmPhoneCode(null, '123456');
+
+    expect(fetchMock.mock.calls[0][0]).toContain('/api/auth/phone-verification/confirm');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ code: '123456' });
+  });
+
+  it('should surface a rejected code as an error', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { message: 'Invalid or expired code' }));
+
+    await expect(confirmPhoneCode({ verificationToken: 'reg-token' }, '000000')).rejects.toMatchObject({
+      status: 400,
+      message: 'Invalid or expired code',
+    });
+  });
+
+  it('should read the phone verification token from the registration response', () => {
+    expect(phoneVerificationToken({ phoneVerificationToken: 'reg-token' })).toBe('reg-token');
+    expect(phoneVerificationToken({ phone_verification_token: 'reg-token' })).toBe('reg-token');
+    expect(phoneVerificationToken({ message: 'ok' })).toBeNull();
+  });
+
+  it('should keep the session when the signed-in user enters a wrong code', async () => {
+    startSession({ token: 'valid-token', email: 'user@example.com' });
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid code' }));
+
+    await expect(confirmPhoneCode(null, '000000')).rejects.toMatchObject({ status: 401 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getSession()?.token).toBe('valid-token');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Phone Verification
+ * Proves the user owns their phone number with a code sent by SMS, either for the
+ * signed-in account or for an account registered moments ago (identified by the
+ * short-lived token the registration response carries, never by a bare email).
+ */
+
+import { apiRequest } from './apiClient';
+
+/** Account whose phone is verified: null for the signed-in user */
+export type PhoneOwner = { verificationToken: string } | null;
+
+export interface PhoneCodeSent {
+  message: string;
+  /** Backend-imposed wait before the next code, when it sends one */
+  resendAfterSeconds: number | null;
+}
+
+const request = (owner: PhoneOwner, body: Record<string, unknown> = {}) => ({
+  method: 'POST' as const,
+  // Right after registration there is no session yet
+  auth: owner === null,
+  body: owner ? { verificationToken: owner.verificationToken, ...body } : body,
+  allowEmpty: true,
+});
+
+/**
+ * Token for verifying the phone before the first login, from the registration response
+ * @returns null when the backend sent none (the user verifies from the account page)
+ */
+export function phoneVerificationToken(data: unknown): string | null {
+  const body = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const token = body.phoneVerificationToken ?? body.phone_verification_token;
+  return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * Text a verification code to the account's phone number
+ * @throws ApiError - e.g. 429 when codes are requested too often
+ */
+export const sendPhoneCode = async (owner: PhoneOwner): Promise<PhoneCodeSent> => {
+  const data = await apiRequest<{ message?: string; resendAfter?: number; resend_after?: number } | null>(
+    '/api/auth/phone-verification/send',
+    request(owner)
+  );
+  const resendAfter = data?.resendAfter ?? data?.resend_after;
+  return {
+    message: typeof data?.message === 'string' && data.message ? data.message : 'We texted you a verification code.',
+    resendAfterSeconds: typeof resendAfter === 'number' && resendAfter > 0 ? resendAfter : null,
+  };
+};
+
+/**
+ * @throws ApiError - when the code is wrong or expired
+ */
+export const confirmPhoneCode = async (owner: PhoneOwner, code: string): Promise<void> => {
+  await apiRequest<unknown>('/api/auth/phone-verification/confirm', {
+    ...request(owner, { code }),
+    // 401 here means a wrong code, not an expired session
+    keepSessionOn401: true,
+  });
+};
@@ -0,0 +1,37 @@
+/**
+ * Profile
+ * Reads and updates the signed-in user's own details on /api/users/me.
+ */
+
+import { apiRequest } from './apiClient';
+
+type JsonObject = Record<string, unknown>;
+
+export interface ProfilePhone {
+  /** E.164, '' when none is set */
+  number: string;
+  verified: boolean;
+}
+
+/**
+ * Phone number on the signed-in account and whether it has been verified
+ */
+export const fetchProfilePhone = async (signal?: AbortSignal): Promise<ProfilePhone> => {
+  const me = await apiRequest<JsonObject | null>('/api/users/me', { signal });
+  const phone = me?.phone ?? me?.phoneNumber;
+  return {
+    number: typeof phone === 'string' ? phone : '',
+    verified: (me?.phoneVerified ?? me?.phoneNumberVerified) === true,
+  };
+};
+
+/**
+ * @param phone - E.164 number (see normalizePhone); a changed number needs verifying again
+ */
+export const updateProfilePhone = async (phone: string): Promise<void> => {
+  await apiRequest<unknown>('/api/users/me', {
+    method: 'PATCH',
+    body: { phone },
+    allowEmpty: true,
+  });
+};
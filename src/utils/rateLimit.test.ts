@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError } from './apiClient';
+import { attemptsRemaining, formatCountdown, throttleFromError, withAttemptsRemaining } from './rateLimit';
+
+describe('rate limits', () => {
+  it('should tell an account lockout from a rate limit', () => {
+    const locked = new ApiError({ status: 423, message: 'Locked', retryAfterSeconds: 600 });
+    const limited = new ApiError({ status: 429, message: 'Slow down' });
+
+    expect(throttleFromError(locked)).toEqual({ kind: 'locked', message: 'Locked', retryAfterSeconds: 600 });
+    expect(throttleFromError(limited)).toMatchObject({ kind: 'rate-limited', message: 'Slow down' });
+    expect(throttleFromError(new ApiError({ status: 401, message: 'Invalid credentials' }))).toBeNull();
+  });
+
+  it('should append the attempts the error reports to the given message', () => {
+    const twoLeft = new ApiError({ status: 401, message: 'Bad credentials', body: { attempts_remaining: 2 } });
+    const oneLeft = new ApiError({ status: 401, message: 'Bad credentials', body: { attemptsRemaining: 1 } });
+
+    expect(attemptsRemaining(twoLeft)).toBe(2);
+    // The caller decides the message (e.g. a form banner); the error only supplies the count
+    expect(withAttemptsRemaining('Invalid email or password', twoLeft)).toBe('Invalid email or password (2 attempts left)');
+    expect(withAttemptsRemaining('Invalid code', oneLeft)).toBe('Invalid code (1 attempt left)');
+    expect(withAttemptsRemaining('Invalid code', new Error('Network down'))).toBe('Invalid code');
+  });
+
+  it('should format countdowns as minutes and seconds', () => {
+    expect(formatCountdown(75)).toBe('1:15');
+    expect(formatCountdown(3_725)).toBe('1:02:05');
+    expect(formatCountdown(-3)).toBe('0:00');
+  });
+});
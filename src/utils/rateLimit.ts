@@ -0,0 +1,76 @@
+/**
+ * Rate Limits and Account Lockout
+ * Interprets throttling (429) and lockout (423) responses so forms can pause with a
+ * countdown instead of showing the raw error.
+ */
+
+import config from '../config';
+import { ApiError, errorMessage } from './apiClient';
+
+/** A refused request and how long the form should stay disabled */
+export interface Throttle {
+  /** 'locked': the account itself is locked (can be unlocked by email); 'rate-limited': too many requests */
+  kind: 'locked' | 'rate-limited';
+  message: string;
+  /** null when the backend gave no duration */
+  retryAfterSeconds: number | null;
+}
+
+const LOCKED_CODES = new Set(['account_locked', 'ACCOUNT_LOCKED', 'user_locked']);
+
+/**
+ * Describe a lockout or rate-limit error
+ * @returns null for any other error
+ */
+export function throttleFromError(error: unknown): Throttle | null {
+  if (!(error instanceof ApiError)) {
+    return null;
+  }
+  if (error.status === 423 || (error.code !== null && LOCKED_CODES.has(error.code))) {
+    return {
+      kind: 'locked',
+      message: errorMessage(error, 'Your account is temporarily locked after too many failed attempts.'),
+      retryAfterSeconds: error.retryAfterSeconds,
+    };
+  }
+  if (error.status === 429) {
+    return {
+      kind: 'rate-limited',
+      message: errorMessage(error, 'Too many attempts.'),
+      // Always pause after a 429, even when the backend doesn't say for how long
+      retryAfterSeconds: error.retryAfterSeconds ?? config.rateLimit.defaultRetrySeconds,
+    };
+  }
+  return null;
+}
+
+/**
+ * Attempts left before lockout, when the backend reports it with a failed attempt
+ */
+export function attemptsRemaining(error: unknown): number | null {
+  if (!(error instanceof ApiError) || !error.body || typeof error.body !== 'object') {
+    return null;
+  }
+  const b = error.body as Record<string, unknown>;
+  const value = b.attemptsRemaining ?? b.attempts_remaining ?? b.remainingAttempts;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Message with the attempts the error reports appended, e.g. "Invalid credentials (2 attempts left)"
+ */
+export function withAttemptsRemaining(message: string, error: unknown): string {
+  const remaining = attemptsRemaining(error);
+  return remaining !== null ? `${message} (${remaining} attempt${remaining === 1 ? '' : 's'} left)` : message;
+}
+
+/**
+ * Countdown label, e.g. 75 -> "1:15"
+ */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Registration Draft
+ * Keeps the registration wizard's progress in sessionStorage so a reload doesn't lose
+ * it. Passwords are never written, and neither is consent: the terms must be accepted
+ * actively in the session that submits them.
+ */
+
+import {
+  REGISTRATION_STEPS,
+  isSecretField,
+  registrationFields,
+  type RegistrationStep,
+  type RegistrationValues,
+} from './registrationSteps';
+
+const DRAFT_KEY = 'registerDraft';
+
+/** Names of the fields a draft must not hold */
+const undraftedFields = (steps: RegistrationStep[]): Set<string> =>
+  new Set(
+    registrationFields(steps)
+      .filter((field) => isSecretField(field) || field.kind === 'consent')
+      .map((field) => field.name)
+  );
+
+export interface RegistrationDraft {
+  /** Index into the steps */
+  step: number;
+  values: RegistrationValues;
+}
+
+/**
+ * Saved draft, or null when there is none (or it cannot be read)
+ */
+export function loadRegistrationDraft(steps: RegistrationStep[] = REGISTRATION_STEPS): RegistrationDraft | null {
+  try {
+    const draft = JSON.parse(sessionStorage.getItem(DRAFT_KEY) ?? 'null') as Partial<RegistrationDraft> | null;
+    if (!draft || typeof draft.step !== 'number' || !draft.values || typeof draft.values !== 'object') {
+      return null;
+    }
+    // Drafts written before a field became undrafted may still hold it
+    const skipped = undraftedFields(steps);
+    const values = Object.fromEntries(
+      Object.entries(draft.values).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string' && !skipped.has(entry[0])
+      )
+    );
+    return { step: draft.step, values };
+  } catch {
+    return null;
+  }
+}
+
+export function saveRegistrationDraft(draft: RegistrationDraft, steps: RegistrationStep[] = REGISTRATION_STEPS): void {
+  const values = { ...draft.values };
+  for (const name of undraftedFields(steps)) {
+    delete values[name];
+  }
+  sessionStorage.setItem(DRAFT_KEY, JSON.stringify({ step: draft.step, values }));
+}
+
+export function clearRegistrationDraft(): void {
+  sessionStorage.removeItem(DRAFT_KEY);
+}
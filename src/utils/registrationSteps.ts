@@ -0,0 +1,177 @@
+/**
+ * Registration Steps
+ * Steps and fields of the registration wizard. Adding a profile field only takes an
+ * entry here: Register renders it, validates it with its step, keeps it in the draft,
+ * shows it on the review page and sends it under its name.
+ */
+
+import { normalizeEmail } from './email';
+import { required, sameAs, validEmail, type FieldSchema, type FormSchema } from './formValidation';
+import { meetsPasswordPolicy, type PasswordPolicy } from './passwordPolicy';
+import { defaultPhoneCountry, normalizePhone, validPhone, type CountryCode } from './phone';
+import type { ConsentRecord } from './consent';
+
+export type RegistrationValues = Record<string, string>;
+
+/** How a field is rendered and sent; 'text' suits most extra profile fields */
+export type RegistrationFieldKind = 'text' | 'email' | 'phone' | 'password' | 'confirm-password' | 'consent';
+
+export interface RegistrationField {
+  name: string;
+  kind: RegistrationFieldKind;
+  label: string;
+  placeholder?: string;
+  autoComplete?: string;
+  /** Extra checks; required() is added unless the field is optional */
+  schema?: FieldSchema<RegistrationValues>;
+  optional?: boolean;
+}
+
+export interface RegistrationStep {
+  id: string;
+  title: string;
+  fields: RegistrationField[];
+}
+
+export const REGISTRATION_STEPS: RegistrationStep[] = [
+  {
+    id: 'account',
+    title: 'Account',
+    fields: [
+      {
+        name: 'email',
+        kind: 'email',
+        label: 'Email',
+        placeholder: 'you@example.com',
+        autoComplete: 'email',
+        schema: { normalize: normalizeEmail, rules: [validEmail()] },
+      },
+    ],
+  },
+  {
+    id: 'profile',
+    title: 'Profile',
+    fields: [
+      { name: 'firstName', kind: 'text', label: 'First name', placeholder: 'Jane', autoComplete: 'given-name' },
+      { name: 'lastName', kind: 'text', label: 'Last name', placeholder: 'Doe', autoComplete: 'family-name' },
+      { name: 'phone', kind: 'phone', label: 'Phone' },
+    ],
+  },
+  {
+    id: 'security',
+    title: 'Security',
+    fields: [
+      { name: 'password', kind: 'password', label: 'Password', autoComplete: 'new-password' },
+      {
+        name: 'confirmPassword',
+        kind: 'confirm-password',
+        label: 'Confirm password',
+        placeholder: 'Re-enter your password',
+        autoComplete: 'new-password',
+      },
+    ],
+  },
+  {
+    id: 'review',
+    title: 'Review',
+    fields: [{ name: 'acceptTerms', kind: 'consent', label: 'Terms' }],
+  },
+];
+
+const REQUIRED_MESSAGES: Partial<Record<RegistrationFieldKind, string>> = {
+  phone: 'Please enter your phone number',
+  password: 'Please choose a password',
+  'confirm-password': 'Please confirm your password',
+  consent: 'Please accept the terms to create an account',
+};
+
+/** Form value holding the country a phone field is typed in; never sent */
+export const phoneCountryField = (name: string): string => `${name}Country`;
+
+/** Passwords never leave memory (no draft, not shown on review) */
+export const isSecretField = (field: RegistrationField): boolean =>
+  field.kind === 'password' || field.kind === 'confirm-password';
+
+export const registrationFields = (steps: RegistrationStep[] = REGISTRATION_STEPS): RegistrationField[] =>
+  steps.flatMap((step) => step.fields);
+
+/**
+ * Form values for a fresh wizard, with prefilled values (e.g. from an invitation) applied
+ */
+export function initialRegistrationValues(
+  prefill: RegistrationValues = {},
+  steps: RegistrationStep[] = REGISTRATION_STEPS
+): RegistrationValues {
+  const values: RegistrationValues = {};
+  for (const field of registrationFields(steps)) {
+    values[field.name] = '';
+    if (field.kind === 'phone') {
+      values[phoneCountryField(field.name)] = defaultPhoneCountry();
+    }
+  }
+  return { ...values, ...prefill };
+}
+
+/**
+ * Validation schema of every step (password rules follow the backend policy)
+ */
+export function registrationSchema(
+  policy: PasswordPolicy,
+  steps: RegistrationStep[] = REGISTRATION_STEPS
+): FormSchema<RegistrationValues> {
+  const schema: FormSchema<RegistrationValues> = {};
+  const fields = registrationFields(steps);
+  const passwordField = fields.find((field) => field.kind === 'password')?.name ?? 'password';
+  for (const field of fields) {
+    const requiredMessage = REQUIRED_MESSAGES[field.kind] ?? `Please enter your ${field.label.toLowerCase()}`;
+    const rules = [
+      ...(field.optional ? [] : [required<RegistrationValues>(requiredMessage)]),
+      ...(field.schema?.rules ?? []),
+    ];
+    if (field.kind === 'phone') {
+      rules.push(validPhone(phoneCountryField(field.name)));
+    } else if (field.kind === 'password') {
+      rules.push(meetsPasswordPolicy(policy));
+    } else if (field.kind === 'confirm-password') {
+      rules.push(sameAs(passwordField, 'Passwords do not match'));
+    }
+    schema[field.name] = { normalize: field.schema?.normalize, rules };
+  }
+  return schema;
+}
+
+/**
+ * Registration request body: each field under its name, normalized for its kind
+ */
+export function registrationBody(
+  values: RegistrationValues,
+  consent: ConsentRecord[],
+  steps: RegistrationStep[] = REGISTRATION_STEPS
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  for (const field of registrationFields(steps)) {
+    const value = values[field.name] ?? '';
+    switch (field.kind) {
+      case 'email':
+        body[field.name] = normalizeEmail(value);
+        break;
+      case 'phone':
+        body[field.name] = value.trim()
+          ? normalizePhone(value, values[phoneCountryField(field.name)] as CountryCode)
+          : null;
+        break;
+      case 'password':
+      case 'confirm-password':
+        body[field.name] = value;
+        break;
+      case 'consent':
+        body.termsAccepted = value === 'true';
+        // Exact versions the user agreed to, so the backend can record them
+        body.consent = consent;
+        break;
+      default:
+        body[field.name] = value.trim();
+    }
+  }
+  return body;
+}
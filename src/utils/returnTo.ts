@@ -0,0 +1,41 @@
+/**
+ * Post-login Redirect Utilities
+ * Validates the page a user should return to after logging in (password or OAuth2).
+ * Only in-app paths on the allowlist are accepted; anything external or malformed is dropped.
+ */
+
+/** Routes (and their sub-paths) a user may be sent back to after login */
+const RETURN_TO_ALLOWLIST = ['/', '/about', '/user-account', '/admin'];
+
+/** Key used to carry the target across the OAuth2 provider round trip */
+export const OAUTH2_RETURN_TO_STORAGE_KEY = 'oauth2_redirect_after_login';
+
+function isAllowedPath(pathname: string): boolean {
+  return RETURN_TO_ALLOWLIST.some((allowed) =>
+    allowed === '/' ? pathname === '/' : pathname === allowed || pathname.startsWith(`${allowed}/`)
+  );
+}
+
+/**
+ * Validate a return target (router path + query, without the base path)
+ * @returns The normalized `path?query#hash`, or null if the target must not be used
+ */
+export function sanitizeReturnTo(target: unknown): string | null {
+  if (typeof target !== 'string' || !target.startsWith('/')) {
+    return null;
+  }
+  // Protocol-relative URLs, backslash tricks and control characters
+  if (target.startsWith('//') || target.includes('\\') || [...target].some((ch) => ch.charCodeAt(0) < 0x20)) {
+    return null;
+  }
+  try {
+    const origin = window.location.origin;
+    const url = new URL(target, origin);
+    if (url.origin !== origin || !isAllowedPath(url.pathname)) {
+      return null;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+} from './twoFactor';
+import { endSession, getSession, startSession } from '../session/sessionStore';
+import { jsonResponse } from '../test/responses';
+
+describe('two-factor settings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    endSession();
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the status in camelCase or snake_case', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { enabled: true, recovery_codes_remaining: 7 }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, {}));
+
+    await expect(getTwoFactorStatus()).resolves.toEqual({ enabled: true, recoveryCodesRemaining: 7 });
+    await expect(getTwoFactorStatus()).resolves.toEqual({ enabled: false, recoveryCodesRemaining: null });
+  });
+
+  it('should read the enrollment and reject one without an otpauth URI', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { secret: 'JBSWY3DPEHPK3PXP', otpauth_url: 'otpauth://totp/App?secret=JBSWY3DPEHPK3PXP' }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { secret: 'JBSWY3DPEHPK3PXP', uri: 'https://example.com' }));
+
+    await expect(startTotpEnrollment()).resolves.toEqual({
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUrl: 'otpauth://totp/App?secret=JBSWY3DPEHPK3PXP',
+    });
+    await expect(startTotpEnrollment()).rejects.toThrow('did not return an authenticator secret');
+  });
+
+  it('should send the code without spaces and return the recovery codes', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { recovery_codes: ['aaaa-bbbb', '', 'cccc-dddd'] }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { codes: ['eeee-ffff'] }));
+
+    await expect(confirmTotpEnrollment('123 456')).resolves.toEqual(['aaaa-bbbb', 'cccc-dddd']);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ code: '123456' });
+    await expect(regenerateRecoveryCodes()).resolves.toEqual(['eeee-ffff']);
+  });
+
+  it('should keep the session when the code or password is wrong', async () => {
+    startSession({ token: 'valid-token', email: 'user@example.com' });
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid code' }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid password' }));
+
+    await expect(confirmTotpEnrollment('000000')).rejects.toMatchObject({ status: 401, message: 'Invalid code' });
+    await expect(disableTwoFactor('wrong')).rejects.toMatchObject({ status: 401, message: 'Invalid password' });
+    expect(getSession()?.token).toBe('valid-token');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Two-Factor Authentication (account settings)
+ * Enrollment of an authenticator app (TOTP), recovery codes and turning 2FA off
+ * for the signed-in user.
+ */
+
+import { apiRequest } from './apiClient';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Unused recovery codes left, when the backend reports it */
+  recoveryCodesRemaining: number | null;
+}
+
+/** Secret for a new authenticator; only active once confirmed with a first code */
+export interface TotpEnrollment {
+  secret: string;
+  /** otpauth:// URI encoded in the QR code */
+  otpauthUrl: string;
+}
+
+function recoveryCodesFrom(data: unknown): string[] {
+  const d = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const codes = d.recoveryCodes ?? d.recovery_codes ?? d.codes;
+  return Array.isArray(codes) ? codes.filter((c): c is string => typeof c === 'string' && c !== '') : [];
+}
+
+/**
+ * Whether the signed-in user has two-factor authentication turned on
+ */
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const data = await apiRequest<Record<string, unknown>>('/api/users/me/2fa');
+  const remaining = data.recoveryCodesRemaining ?? data.recovery_codes_remaining;
+  return {
+    enabled: data.enabled === true,
+    recoveryCodesRemaining: typeof remaining === 'number' ? remaining : null,
+  };
+};
+
+/**
+ * Create a new authenticator secret (not active until confirmTotpEnrollment succeeds)
+ */
+export const startTotpEnrollment = async (): Promise<TotpEnrollment> => {
+  const data = await apiRequest<Record<string, unknown>>('/api/users/me/2fa/totp/setup', { method: 'POST' });
+  const secret = typeof data.secret === 'string' ? data.secret : '';
+  const otpauthUrl = data.otpauthUrl ?? data.otpauth_url ?? data.uri;
+  if (!secret || typeof otpauthUrl !== 'string' || !otpauthUrl.startsWith('otpauth://')) {
+    throw new Error('The server did not return an authenticator secret. Please try again.');
+  }
+  return { secret, otpauthUrl };
+};
+
+/**
+ * Turn 2FA on with the first code from the authenticator
+ * @returns One-time recovery codes (shown to the user only once)
+ */
+export const confirmTotpEnrollment = async (code: string): Promise<string[]> => {
+  const data = await apiRequest<unknown>('/api/users/me/2fa/totp/confirm', {
+    method: 'POST',
+    body: { code: code.replace(/\s+/g, '') },
+    // 401 here means a wrong code, not an expired session
+    keepSessionOn401: true,
+  });
+  return recoveryCodesFrom(data);
+};
+
+/**
+ * Replace all recovery codes; the old ones stop working
+ */
+export const regenerateRecoveryCodes = async (): Promise<string[]> => {
+  const data = await apiRequest<unknown>('/api/users/me/2fa/recovery-codes', { method: 'POST' });
+  return recoveryCodesFrom(data);
+};
+
+/**
+ * Turn 2FA off; requires the account password
+ */
+export const disableTwoFactor = async (password: string): Promise<void> => {
+  await apiRequest<unknown>('/api/users/me/2fa/disable', {
+    method: 'POST',
+    body: { password },
+    allowEmpty: true,
+    keepSessionOn401: true,
+  });
+};
+
+/**
+ * Plain-text version of the recovery codes for download/printing
+ */
+export function recoveryCodesText(codes: string[], email: string | null): string {
+  return [
+    `Recovery codes${email ? ` for ${email}` : ''}`,
+    `Generated ${new Date().toLocaleString()}`,
+    '',
+    'Each code can be used once to sign in if you lose access to your authenticator app.',
+    '',
+    ...codes,
+    '',
+  ].join('\n');
+}
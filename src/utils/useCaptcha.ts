@@ -0,0 +1,75 @@
+import { useCallback, useState } from 'react';
+import config from '../config';
+import { getCaptchaProvider, isCaptchaRequiredError } from './captcha';
+
+const FAILURES_KEY_PREFIX = 'captchaFailures:';
+
+/** Counted per tab, so reloading the page doesn't skip the challenge */
+function readFailures(form: string): number {
+  const value = Number(sessionStorage.getItem(FAILURES_KEY_PREFIX + form));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+interface CaptchaState {
+  /** Render the challenge and refuse to submit without a token */
+  required: boolean;
+  token: string | null;
+  setToken: (token: string | null) => void;
+  /** Changes whenever the widget has to be re-rendered (tokens are single-use) */
+  widgetKey: number;
+  /** Spread into the request body */
+  fields: Record<string, string>;
+  /** Call after a failed submission; true when the backend asked for a challenge that can be shown */
+  recordFailure: (error: unknown) => boolean;
+  recordSuccess: () => void;
+}
+
+/**
+ * Challenge state for a public form: required when the backend signals it or after
+ * config.captcha.failuresBeforeChallenge failed submissions
+ * @param form - Name the failure count is kept under (e.g. 'login')
+ */
+export const useCaptcha = (form: string): CaptchaState => {
+  const [failures, setFailures] = useState<number>(() => readFailures(form));
+  const [serverRequired, setServerRequired] = useState<boolean>(false);
+  const [token, setToken] = useState<string | null>(null);
+  const [widgetKey, setWidgetKey] = useState<number>(0);
+
+  const threshold = config.captcha.failuresBeforeChallenge;
+  const required =
+    getCaptchaProvider() !== null && (serverRequired || (threshold > 0 && failures >= threshold));
+
+  const recordFailure = useCallback(
+    (error: unknown) => {
+      const next = readFailures(form) + 1;
+      sessionStorage.setItem(FAILURES_KEY_PREFIX + form, String(next));
+      setFailures(next);
+      setToken(null);
+      setWidgetKey((key) => key + 1);
+      const signalled = isCaptchaRequiredError(error);
+      if (signalled) {
+        setServerRequired(true);
+      }
+      // Without a provider there's no widget to solve, so let the caller handle the error as usual
+      return signalled && getCaptchaProvider() !== null;
+    },
+    [form]
+  );
+
+  const recordSuccess = useCallback(() => {
+    sessionStorage.removeItem(FAILURES_KEY_PREFIX + form);
+    setFailures(0);
+    setServerRequired(false);
+    setToken(null);
+  }, [form]);
+
+  return {
+    required,
+    token,
+    setToken,
+    widgetKey,
+    fields: token ? { [config.captcha.tokenField]: token } : {},
+    recordFailure,
+    recordSuccess,
+  };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const TICK_MS = 1000;
+
+interface Countdown {
+  /** 0 when no countdown is running */
+  secondsLeft: number;
+  /** True once a started countdown has run out (until the next start); false before any start */
+  finished: boolean;
+  /** (Re)start the countdown; 0 stops it */
+  start: (seconds: number) => void;
+}
+
+/**
+ * Live seconds-left countdown (retry delays, resend cooldowns)
+ */
+export const useCountdown = (): Countdown => {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(0);
+  const [finished, setFinished] = useState<boolean>(false);
+
+  const start = useCallback((seconds: number) => {
+    const current = Date.now();
+    setNow(current);
+    setFinished(false);
+    setEndsAt(seconds > 0 ? current + seconds * 1000 : null);
+  }, []);
+
+  useEffect(() => {
+    if (endsAt === null) {
+      return;
+    }
+    const interval = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= endsAt) {
+        setEndsAt(null);
+        setFinished(true);
+      }
+    }, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [endsAt]);
+
+  return {
+    secondsLeft: endsAt === null ? 0 : Math.max(0, Math.ceil((endsAt - now) / 1000)),
+    finished,
+    start,
+  };
+};
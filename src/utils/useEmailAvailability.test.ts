@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import config from '../config';
+import { useEmailAvailability } from './useEmailAvailability';
+import { jsonResponse } from '../test/responses';
+
+const settle = async () => {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(config.emailAvailability.debounceMs);
+  });
+};
+
+describe('useEmailAvailability', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    globalThis.fetch = vi.fn() as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should look up the normalized address once typing pauses', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { available: false }));
+    const { result, rerender } = renderHook(({ email }) => useEmailAvailability(email), {
+      initialProps: { email: 'jane@' },
+    });
+
+    expect(result.current).toBe('unknown');
+    rerender({ email: ' Jane@Example.com' });
+    expect(result.current).toBe('checking');
+    await settle();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toContain('email=jane%40example.com');
+    expect(result.current).toBe('taken');
+  });
+
+  it('should abort a stale lookup when the address changes', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    let staleSignal: AbortSignal | undefined;
+    fetchMock.mockImplementationOnce((_url: string, init: RequestInit) => {
+      staleSignal = init.signal ?? undefined;
+      return new Promise(() => {});
+    });
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { available: true }));
+    const { result, rerender } = renderHook(({ email }) => useEmailAvailability(email), {
+      initialProps: { email: 'old@example.com' },
+    });
+    await settle();
+
+    rerender({ email: 'new@example.com' });
+    await settle();
+
+    expect(staleSignal?.aborted).toBe(true);
+    expect(result.current).toBe('available');
+  });
+
+  it('should not look anything up when the check is turned off', async () => {
+    config.emailAvailability.enabled = false;
+    try {
+      const { result } = renderHook(() => useEmailAvailability('jane@example.com'));
+      await settle();
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(result.current).toBe('unknown');
+    } finally {
+      config.emailAvailability.enabled = true;
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import config from '../config';
+import { isAbortError } from './apiClient';
+import { isValidEmail, normalizeEmail } from './email';
+import { checkEmailAvailability } from './emailAvailability';
+
+/** 'unknown' when lookups are off, the address is incomplete, or the backend didn't answer */
+export type EmailAvailability = 'unknown' | 'checking' | 'available' | 'taken';
+
+/**
+ * Debounced availability lookup for the email being typed. A newer address aborts the
+ * previous lookup, so a slow stale answer never replaces the current one.
+ */
+export const useEmailAvailability = (email: string): EmailAvailability => {
+  const normalized = normalizeEmail(email);
+  const enabled = config.emailAvailability.enabled && isValidEmail(normalized);
+  const [result, setResult] = useState<{ email: string; available: boolean | null } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      checkEmailAvailability(normalized, controller.signal)
+        .then((available) => setResult({ email: normalized, available }))
+        .catch((err: unknown) => {
+          if (isAbortError(err)) {
+            return;
+          }
+          console.warn('Email availability check failed:', err);
+          setResult({ email: normalized, available: null });
+        });
+    }, config.emailAvailability.debounceMs);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [enabled, normalized]);
+
+  if (!enabled) {
+    return 'unknown';
+  }
+  if (result?.email !== normalized) {
+    return 'checking';
+  }
+  return result.available === null ? 'unknown' : result.available ? 'available' : 'taken';
+};
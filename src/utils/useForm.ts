@@ -0,0 +1,134 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { ChangeEvent, FocusEvent } from 'react';
+import {
+  serverFormErrors,
+  validateForm,
+  type FormErrors,
+  type FormSchema,
+  type FormValues,
+} from './formValidation';
+
+interface UseFormOptions<V extends FormValues<V>> {
+  initialValues: V;
+  /** Keep it stable: a module-level constant, or memoized when built from fetched data */
+  schema: FormSchema<V>;
+  /** Server field name -> form field, for fields the backend names differently */
+  serverFieldAliases?: Record<string, keyof V & string>;
+  /** Called on every edit, e.g. to clear the error banner */
+  onEdit?: () => void;
+}
+
+/** Props for an <input> bound to a form field */
+interface FieldProps {
+  id: string;
+  name: string;
+  value: string;
+  onChange: (e: ChangeEvent<HTMLInputElement>) => void;
+  onBlur: (e: FocusEvent<HTMLInputElement>) => void;
+  'aria-invalid'?: boolean;
+  'aria-describedby'?: string;
+}
+
+interface FormState<V extends FormValues<V>> {
+  values: V;
+  /** Visible errors: schema errors of touched fields, else errors from the last server response */
+  errors: FormErrors<V>;
+  /** Spread onto the input; its error element must use the id `${id}-error` (see FieldError) */
+  field: (name: keyof V & string, id?: string) => FieldProps;
+  setValue: (name: keyof V & string, value: string) => void;
+  /** Show the errors of the given fields (default: all); true when they are all valid */
+  validate: (fields?: (keyof V & string)[]) => boolean;
+  /**
+   * Show a failed submission's field errors next to their inputs
+   * @returns Message for the error banner, or null when every problem is shown inline
+   */
+  applyServerErrors: (error: unknown, fallback: string) => string | null;
+  reset: (values?: V) => void;
+}
+
+/**
+ * Controlled form state validated against a schema. Errors appear once a field has been
+ * left (or the form submitted) and then follow the user's typing.
+ */
+export const useForm = <V extends FormValues<V>>({
+  initialValues,
+  schema,
+  serverFieldAliases,
+  onEdit,
+}: UseFormOptions<V>): FormState<V> => {
+  const [values, setValues] = useState<V>(initialValues);
+  const [touched, setTouched] = useState<Partial<Record<keyof V, boolean>>>({});
+  const [serverErrors, setServerErrors] = useState<FormErrors<V>>({});
+
+  const schemaErrors = useMemo(() => validateForm(schema, values), [schema, values]);
+
+  const errors = useMemo(() => {
+    const visible: FormErrors<V> = {};
+    for (const name of Object.keys(values) as (keyof V)[]) {
+      const message = (touched[name] ? schemaErrors[name] : undefined) ?? serverErrors[name];
+      if (message) {
+        visible[name] = message;
+      }
+    }
+    return visible;
+  }, [values, touched, schemaErrors, serverErrors]);
+
+  const setValue = useCallback((name: keyof V & string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    // The server's verdict was about the old value
+    setServerErrors((prev) => {
+      if (!(name in prev)) {
+        return prev;
+      }
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setValue(e.target.name as keyof V & string, e.target.value);
+    onEdit?.();
+  };
+
+  const handleBlur = useCallback(
+    (e: FocusEvent<HTMLInputElement>) => {
+      const name = e.target.name as keyof V & string;
+      const normalize = schema[name]?.normalize;
+      if (normalize) {
+        setValues((prev) => ({ ...prev, [name]: normalize(prev[name] ?? '') }));
+      }
+      setTouched((prev) => (prev[name] ? prev : { ...prev, [name]: true }));
+    },
+    [schema]
+  );
+
+  const field = (name: keyof V & string, id: string = name): FieldProps => ({
+    id,
+    name,
+    value: values[name] ?? '',
+    onChange: handleChange,
+    onBlur: handleBlur,
+    ...(errors[name] ? { 'aria-invalid': true, 'aria-describedby': `${id}-error` } : {}),
+  });
+
+  const validate = (fields = Object.keys(values) as (keyof V & string)[]) => {
+    setTouched((prev) => ({ ...prev, ...Object.fromEntries(fields.map((name) => [name, true])) }));
+    return fields.every((name) => !schemaErrors[name]);
+  };
+
+  const applyServerErrors = (error: unknown, fallback: string) => {
+    const fields = Object.keys(values) as (keyof V & string)[];
+    const { errors: fieldErrors, banner } = serverFormErrors<V>(error, fields, fallback, serverFieldAliases);
+    setServerErrors(fieldErrors);
+    return banner;
+  };
+
+  const reset = (next: V = initialValues) => {
+    setValues(next);
+    setTouched({});
+    setServerErrors({});
+  };
+
+  return { values, errors, field, setValue, validate, applyServerErrors, reset };
+};
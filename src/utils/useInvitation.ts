@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { errorMessage, isAbortError } from './apiClient';
+import { invitationProblem, validateInvitation, type Invitation, type InvitationProblem } from './invitation';
+
+type InvitationState =
+  | { status: 'none' | 'loading'; invitation: null; message: null }
+  | { status: 'valid'; invitation: Invitation; message: null }
+  | { status: InvitationProblem; invitation: null; message: string };
+
+const NO_INVITATION: InvitationState = { status: 'none', invitation: null, message: null };
+
+const LOADING: InvitationState = { status: 'loading', invitation: null, message: null };
+
+/**
+ * Validated invite for the token from the URL ('none' when there is no token)
+ */
+export const useInvitation = (token: string | null): InvitationState => {
+  const [result, setResult] = useState<{ token: string; state: InvitationState } | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    const controller = new AbortController();
+    validateInvitation(token, controller.signal)
+      .then((invitation) => setResult({ token, state: { status: 'valid', invitation, message: null } }))
+      .catch((err: unknown) => {
+        if (isAbortError(err)) {
+          return;
+        }
+        console.error('Invitation check error:', err);
+        setResult({
+          token,
+          state: {
+            status: invitationProblem(err),
+            invitation: null,
+            message: errorMessage(err, 'We could not check your invitation. Please try again later.'),
+          },
+        });
+      });
+    return () => controller.abort();
+  }, [token]);
+
+  if (!token) {
+    return NO_INVITATION;
+  }
+  return result?.token === token ? result.state : LOADING;
+};
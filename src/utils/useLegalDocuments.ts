@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { isAbortError } from './apiClient';
+import { fetchLegalDocuments, type LegalDocument } from './consent';
+
+/**
+ * Current legal documents for the registration form; empty until loaded or when the
+ * backend has none to offer
+ */
+export const useLegalDocuments = (): LegalDocument[] => {
+  const [documents, setDocuments] = useState<LegalDocument[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchLegalDocuments(controller.signal)
+      .then(setDocuments)
+      .catch((err: unknown) => {
+        if (!isAbortError(err)) {
+          console.warn('Could not load legal documents:', err);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  return documents;
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_PASSWORD_POLICY, fetchPasswordPolicy, type PasswordPolicy } from './passwordPolicy';
+
+/**
+ * Backend password policy; the default policy applies until it has loaded
+ */
+export const usePasswordPolicy = (): PasswordPolicy => {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPasswordPolicy().then((loaded) => {
+      if (!cancelled) {
+        setPolicy(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return policy;
+};
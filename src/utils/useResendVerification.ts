@@ -0,0 +1,54 @@
+import { useCallback, useState } from 'react';
+import config from '../config';
+import { ApiError, errorMessage } from './apiClient';
+import { normalizeEmail } from './email';
+import { resendVerificationEmail, type VerificationEmailSent } from './emailVerification';
+import { useCountdown } from './useCountdown';
+
+interface ResendVerificationState {
+  /** Resolves with what the backend reported once the email is on its way, null on failure */
+  resend: (email: string) => Promise<VerificationEmailSent | null>;
+  sending: boolean;
+  /** Cooldown before the next request is allowed */
+  secondsLeft: number;
+  message: string | null;
+  error: string | null;
+}
+
+/**
+ * "Resend verification email" with a cooldown between requests
+ */
+export const useResendVerification = (): ResendVerificationState => {
+  const [sending, setSending] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { secondsLeft, start } = useCountdown();
+
+  const resend = useCallback(
+    async (email: string) => {
+      setSending(true);
+      setMessage(null);
+      setError(null);
+
+      try {
+        const sent = await resendVerificationEmail(normalizeEmail(email));
+        setMessage(sent.message);
+        start(config.emailVerification.resendCooldownSeconds);
+        return sent;
+      } catch (err) {
+        console.error('Resend verification error:', err);
+        setError(errorMessage(err, 'Failed to send verification email'));
+        // Throttled by the backend: wait as long as it asks
+        if (err instanceof ApiError && err.status === 429) {
+          start(err.retryAfterSeconds ?? config.emailVerification.resendCooldownSeconds);
+        }
+        return null;
+      } finally {
+        setSending(false);
+      }
+    },
+    [start]
+  );
+
+  return { resend, sending, secondsLeft, message, error };
+};
@@ -0,0 +1,53 @@
+import { useCallback, useState } from 'react';
+import { throttleFromError, type Throttle } from './rateLimit';
+import { useCountdown } from './useCountdown';
+
+interface ThrottleState {
+  /** Lockout or rate limit to show; null once its countdown has run out */
+  throttle: Throttle | null;
+  secondsLeft: number;
+  /** True while the form should stay disabled */
+  isThrottled: boolean;
+  /** Take over a lockout/rate-limit error; false for any other error */
+  handleThrottle: (error: unknown) => boolean;
+  clearThrottle: () => void;
+}
+
+/**
+ * Form state for lockout (423) and rate-limit (429) responses
+ */
+export const useThrottle = (): ThrottleState => {
+  const [current, setCurrent] = useState<Throttle | null>(null);
+  const { secondsLeft, start } = useCountdown();
+
+  const handleThrottle = useCallback(
+    (error: unknown) => {
+      const throttle = throttleFromError(error);
+      if (!throttle) {
+        return false;
+      }
+      setCurrent(throttle);
+      start(throttle.retryAfterSeconds ?? 0);
+      return true;
+    },
+    [start]
+  );
+
+  const clearThrottle = useCallback(() => {
+    setCurrent(null);
+    start(0);
+  }, [start]);
+
+  // A lockout without a known end stays (visible and disabling the form) until cleared;
+  // anything else disappears when the wait is over
+  const openEnded = current !== null && current.retryAfterSeconds === null;
+  const visible = current !== null && (secondsLeft > 0 || openEnded);
+
+  return {
+    throttle: visible ? current : null,
+    secondsLeft,
+    isThrottled: secondsLeft > 0 || openEnded,
+    handleThrottle,
+    clearThrottle,
+  };
+};
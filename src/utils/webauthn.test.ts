@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { base64UrlToBuffer, bufferToBase64Url, isWebAuthnSupported, signInWithPasskey } from './webauthn';
+import { jsonResponse } from '../test/responses';
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+describe('webauthn', () => {
+  const credentialsGet = vi.fn();
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as typeof fetch;
+    vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+    vi.stubGlobal('navigator', { ...navigator, credentials: { get: credentialsGet, create: vi.fn() } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    credentialsGet.mockReset();
+  });
+
+  it('should round-trip base64url without padding', () => {
+    const encoded = bufferToBase64Url(bytes(251, 255, 0, 1));
+
+    expect(encoded).toBe('-_8AAQ');
+    expect(new Uint8Array(base64UrlToBuffer(encoded))).toEqual(new Uint8Array([251, 255, 0, 1]));
+  });
+
+  it('should report missing WebAuthn support', () => {
+    vi.stubGlobal('PublicKeyCredential', undefined);
+
+    expect(isWebAuthnSupported()).toBe(false);
+  });
+
+  it('should run the assertion ceremony and send the signed challenge to the backend', async () => {
+    const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, { publicKey: { challenge: 'AQID', allowCredentials: [{ id: 'BAU', type: 'public-key' }] }, challengeId: 'c-1' })
+    );
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { token: 'passkey-token', email: 'user@example.com' }));
+    credentialsGet.mockResolvedValueOnce({
+      id: 'cred-1',
+      rawId: bytes(9),
+      type: 'public-key',
+      authenticatorAttachment: 'platform',
+      getClientExtensionResults: () => ({}),
+      response: {
+        clientDataJSON: bytes(1),
+        authenticatorData: bytes(2),
+        signature: bytes(3),
+        userHandle: null,
+      },
+    });
+
+    const result = await signInWithPasskey();
+
+    const { publicKey } = credentialsGet.mock.calls[0][0];
+    expect(new Uint8Array(publicKey.challenge)).toEqual(new Uint8Array([1, 2, 3]));
+    expect(new Uint8Array(publicKey.allowCredentials[0].id)).toEqual(new Uint8Array([4, 5]));
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      challengeId: 'c-1',
+      credential: {
+        id: 'cred-1',
+        rawId: 'CQ',
+        type: 'public-key',
+        authenticatorAttachment: 'platform',
+        clientExtensionResults: {},
+        response: { clientDataJSON: 'AQ', authenticatorData: 'Ag', signature: 'Aw', userHandle: null },
+      },
+    });
+    expect(result).toEqual({ token: 'passkey-token', email: 'user@example.com' });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * WebAuthn / Passkeys
+ * Runs the browser side of the passkey ceremonies against the backend: sign-in
+ * (assertion) and adding a passkey to the signed-in account (attestation), plus the
+ * account's passkey list. Binary fields travel as base64url in JSON.
+ */
+
+import { apiRequest } from './apiClient';
+
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+/** Login response once the backend accepts the assertion (same shape as password login) */
+export interface PasskeyLoginResponse {
+  token?: string;
+  refreshToken?: string;
+  refresh_token?: string;
+  email?: string;
+  user?: { email?: string };
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Whether this browser can use passkeys at all
+ */
+export const isWebAuthnSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  typeof window.PublicKeyCredential === 'function' &&
+  typeof navigator.credentials?.get === 'function' &&
+  typeof navigator.credentials?.create === 'function';
+
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export function bufferToBase64Url(buffer: ArrayBuffer | ArrayBufferView): string {
+  const bytes =
+    buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Backends return the options either bare or wrapped as { publicKey: {...} } */
+function unwrapOptions(data: unknown): JsonObject {
+  const d = (data && typeof data === 'object' ? data : {}) as JsonObject;
+  const options = (d.publicKey && typeof d.publicKey === 'object' ? d.publicKey : d) as JsonObject;
+  if (typeof options.challenge !== 'string') {
+    throw new Error('The server did not return a passkey challenge. Please try again.');
+  }
+  return options;
+}
+
+function toCredentialDescriptors(list: unknown): PublicKeyCredentialDescriptor[] | undefined {
+  if (!Array.isArray(list)) {
+    return undefined;
+  }
+  return list
+    .filter((item): item is JsonObject => !!item && typeof item === 'object' && typeof (item as JsonObject).id === 'string')
+    .map((item) => ({
+      ...(item as unknown as PublicKeyCredentialDescriptor),
+      id: base64UrlToBuffer(item.id as string),
+    }));
+}
+
+function toRequestOptions(json: JsonObject): PublicKeyCredentialRequestOptions {
+  return {
+    ...(json as unknown as PublicKeyCredentialRequestOptions),
+    challenge: base64UrlToBuffer(json.challenge as string),
+    allowCredentials: toCredentialDescriptors(json.allowCredentials),
+  };
+}
+
+function toCreationOptions(json: JsonObject): PublicKeyCredentialCreationOptions {
+  const user = (json.user ?? {}) as JsonObject;
+  if (typeof user.id !== 'string') {
+    throw new Error('The server did not return passkey registration options. Please try again.');
+  }
+  return {
+    ...(json as unknown as PublicKeyCredentialCreationOptions),
+    challenge: base64UrlToBuffer(json.challenge as string),
+    user: { ...(user as unknown as PublicKeyCredentialUserEntity), id: base64UrlToBuffer(user.id) },
+    excludeCredentials: toCredentialDescriptors(json.excludeCredentials),
+  };
+}
+
+/** JSON form of a credential returned by navigator.credentials (what the backend verifies) */
+function serializeCredential(credential: PublicKeyCredential): JsonObject {
+  const response = credential.response as AuthenticatorAttestationResponse & AuthenticatorAssertionResponse;
+  const serializedResponse: JsonObject = {
+    clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+  };
+  if ('authenticatorData' in response && response.authenticatorData) {
+    serializedResponse.authenticatorData = bufferToBase64Url(response.authenticatorData);
+    serializedResponse.signature = bufferToBase64Url(response.signature);
+    serializedResponse.userHandle = response.userHandle ? bufferToBase64Url(response.userHandle) : null;
+  }
+  if ('attestationObject' in response && response.attestationObject) {
+    serializedResponse.attestationObject = bufferToBase64Url(response.attestationObject);
+    serializedResponse.transports = typeof response.getTransports === 'function' ? response.getTransports() : [];
+  }
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    authenticatorAttachment: credential.authenticatorAttachment ?? null,
+    clientExtensionResults: credential.getClientExtensionResults?.() ?? {},
+    response: serializedResponse,
+  };
+}
+
+/**
+ * User-visible message for a failed passkey ceremony
+ */
+export function passkeyErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof DOMException) {
+    switch (error.name) {
+      case 'NotAllowedError':
+        return 'The passkey request was cancelled or timed out.';
+      case 'InvalidStateError':
+        return 'This passkey is already registered for your account.';
+      case 'SecurityError':
+        return 'Passkeys are not available on this site address.';
+      case 'NotSupportedError':
+        return 'This device does not support the requested passkey type.';
+    }
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Sign in with a passkey (discoverable credential; no email needed)
+ * @throws DOMException from the browser (see passkeyErrorMessage) or ApiError from the backend
+ */
+export const signInWithPasskey = async (): Promise<PasskeyLoginResponse> => {
+  const optionsData = await apiRequest<JsonObject>('/api/auth/passkey/login/options', { method: 'POST', auth: false });
+  const credential = (await navigator.credentials.get({
+    publicKey: toRequestOptions(unwrapOptions(optionsData)),
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('No passkey was selected.');
+  }
+  return apiRequest<PasskeyLoginResponse>('/api/auth/passkey/login/verify', {
+    method: 'POST',
+    auth: false,
+    body: {
+      // Lets the backend find the challenge it issued when it isn't kept in a cookie
+      challengeId: optionsData.challengeId ?? null,
+      credential: serializeCredential(credential),
+    },
+  });
+};
+
+function toPasskey(item: unknown): Passkey | null {
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+  const p = item as JsonObject;
+  const id = p.id ?? p.credentialId;
+  if (typeof id !== 'string' || !id) {
+    return null;
+  }
+  return {
+    id,
+    name: typeof p.name === 'string' && p.name ? p.name : 'Passkey',
+    createdAt: typeof p.createdAt === 'string' ? p.createdAt : null,
+    lastUsedAt: typeof p.lastUsedAt === 'string' ? p.lastUsedAt : null,
+  };
+}
+
+/**
+ * Passkeys registered for the signed-in user
+ */
+export const listPasskeys = async (): Promise<Passkey[]> => {
+  const data = await apiRequest<unknown>('/api/users/me/passkeys');
+  const list = Array.isArray(data) ? data : ((data as JsonObject | null)?.passkeys ?? []);
+  return (Array.isArray(list) ? list : []).map(toPasskey).filter((p): p is Passkey => p !== null);
+};
+
+/**
+ * Create a passkey on this device and add it to the signed-in account
+ */
+export const registerPasskey = async (name: string): Promise<Passkey> => {
+  const optionsData = await apiRequest<JsonObject>('/api/users/me/passkeys/options', { method: 'POST' });
+  const credential = (await navigator.credentials.create({
+    publicKey: toCreationOptions(unwrapOptions(optionsData)),
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('No passkey was created.');
+  }
+  const data = await apiRequest<unknown>('/api/users/me/passkeys', {
+    method: 'POST',
+    body: {
+      challengeId: optionsData.challengeId ?? null,
+      name,
+      credential: serializeCredential(credential),
+    },
+  });
+  return toPasskey(data) ?? { id: credential.id, name, createdAt: new Date().toISOString(), lastUsedAt: null };
+};
+
+export const renamePasskey = async (id: string, name: string): Promise<void> => {
+  await apiRequest<unknown>(`/api/users/me/passkeys/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: { name },
+    allowEmpty: true,
+  });
+};
+
+export const deletePasskey = async (id: string): Promise<void> => {
+  await apiRequest<unknown>(`/api/users/me/passkeys/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    allowEmpty: true,
+  });
+};
@@ -1,9 +1,11 @@
 import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
+import { smsStandIn } from './dev-server/smsStandIn'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // smsStandIn only answers phone verification requests under `npm run dev:sms`
+  plugins: [react(), smsStandIn()],
   // Only use base path in production builds, not in development
   // This allows email links to work in both dev and production
   // In dev: base is "/" so links like /verify-email work directly
@@ -40,7 +42,7 @@ export default defineConfig({
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
     css: true,
-    include: ['src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}'],
+    include: ['src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}', 'dev-server/**/*.test.ts'],
     exclude: ['node_modules', 'dist', '.idea', '.vscode', '.git'],
   },
 })